@@ -15,7 +15,7 @@ export default [
     languageOptions: {
       parser: tsParser,
       parserOptions: {
-        project: "./tsconfig.json",
+        project: "./tsconfig.spec.json",
       },
     },
     rules: {
@@ -38,7 +38,7 @@ export default [
       ecmaVersion: 2020,
       sourceType: "module",
       parserOptions: {
-        project: "./tsconfig.json",
+        project: "./tsconfig.spec.json",
       },
       globals: {
         node: true,
@@ -1,5 +1,9 @@
 // アプリケーション設定ファイル
 // このファイルはアプリケーション全体で使用される設定値を定義します
+// すべての設定値は環境変数、または設定ファイル（CONFIG_FILE）から読み込まれ、起動時に検証されます
+// 読み込みの優先順位: 環境変数 > 設定ファイル > 既定値
+// 不正な値が1つでもある場合は、すべての問題をまとめたエラーを投げてサーバーを起動しません
+import fs from "fs";
 import dotenv from "dotenv";
 
 // 環境変数の読み込み
@@ -7,27 +11,574 @@ import dotenv from "dotenv";
 // これにより、開発環境と本番環境で異なる設定を使用できます
 dotenv.config();
 
+// ===== 設定値の読み込みと検証 =====
+
+// 設定値の読み込み元
+type ConfigSource = "env" | "file" | "default";
+
+// 読み込んだ設定値の型定義（起動時の表示に使用）
+// - key: 設定名（環境変数名）
+// - value: 有効な値
+// - source: 値の読み込み元
+// - secret: 表示時に値を伏せるかどうか
+interface ConfigEntry {
+  key: string;
+  value: unknown;
+  source: ConfigSource;
+  secret: boolean;
+}
+
+// 読み込んだすべての設定値
+const entries: ConfigEntry[] = [];
+// 検証で見つかった問題
+const errors: string[] = [];
+
+// 設定ファイルを読み込む関数
+// CONFIG_FILEにJSONファイルのパスが指定されている場合、そのファイルのキーを設定名として読み込みます
+// 例: { "MAX_CLIENTS": 2000, "CORS_ORIGINS": ["https://a.example.com"] }
+const loadConfigFile = (): Record<string, unknown> => {
+  const filePath = process.env.CONFIG_FILE;
+  if (!filePath) {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(fs.readFileSync(filePath, "utf8"));
+    if (
+      typeof parsed !== "object" ||
+      parsed === null ||
+      Array.isArray(parsed)
+    ) {
+      errors.push(`CONFIG_FILE: ${filePath} はJSONオブジェクトではありません`);
+      return {};
+    }
+    return parsed;
+  } catch (error) {
+    errors.push(
+      `CONFIG_FILE: ${filePath} を読み込めません (${(error as Error).message})`,
+    );
+    return {};
+  }
+};
+
+// 設定ファイルの内容
+const fileConfig = loadConfigFile();
+
+// 設定値の文字列表現と読み込み元を取得する関数
+// 空文字列の環境変数は指定されていないものとして扱います
+// 設定ファイルの配列はカンマ区切りの文字列に変換します
+const readRaw = (
+  key: string,
+): { raw: string; source: ConfigSource } | undefined => {
+  const fromEnv = process.env[key];
+  if (fromEnv !== undefined && fromEnv !== "") {
+    return { raw: fromEnv, source: "env" };
+  }
+  const fromFile = fileConfig[key];
+  if (fromFile !== undefined && fromFile !== null) {
+    return {
+      raw: Array.isArray(fromFile) ? fromFile.join(",") : String(fromFile),
+      source: "file",
+    };
+  }
+  return undefined;
+};
+
+// 読み込んだ設定値を記録して返す関数
+const record = <T>(
+  key: string,
+  value: T,
+  source: ConfigSource,
+  secret = false,
+): T => {
+  entries.push({ key, value, source, secret });
+  return value;
+};
+
+// 文字列の設定値を読み込む関数
+// patternを指定した場合は、一致しない値を不正として扱います
+const str = (
+  key: string,
+  fallback: string,
+  options: { pattern?: RegExp; secret?: boolean } = {},
+): string => {
+  const found = readRaw(key);
+  if (!found) {
+    return record(key, fallback, "default", options.secret);
+  }
+  if (options.pattern && !options.pattern.test(found.raw)) {
+    errors.push(`${key}: "${found.raw}" は不正な形式です`);
+    return record(key, fallback, "default", options.secret);
+  }
+  return record(key, found.raw, found.source, options.secret);
+};
+
+// 整数の設定値を読み込む関数
+// 整数でない値や、min〜maxの範囲外の値を不正として扱います
+const int = (
+  key: string,
+  fallback: number,
+  options: { min?: number; max?: number } = {},
+): number => {
+  const { min = 0, max = Number.MAX_SAFE_INTEGER } = options;
+  const found = readRaw(key);
+  if (!found) {
+    return record(key, fallback, "default");
+  }
+  const value = Number(found.raw);
+  if (!Number.isInteger(value) || value < min || value > max) {
+    const range =
+      max === Number.MAX_SAFE_INTEGER ? `${min}以上` : `${min}〜${max}`;
+    errors.push(`${key}: "${found.raw}" は${range}の整数で指定してください`);
+    return record(key, fallback, "default");
+  }
+  return record(key, value, found.source);
+};
+
+// 選択肢から1つを選ぶ設定値を読み込む関数
+const oneOf = <T extends string>(
+  key: string,
+  values: readonly T[],
+  fallback: T,
+): T => {
+  const found = readRaw(key);
+  if (!found) {
+    return record(key, fallback, "default");
+  }
+  if (!values.includes(found.raw as T)) {
+    errors.push(
+      `${key}: "${found.raw}" は ${values.join(" / ")} のいずれかで指定してください`,
+    );
+    return record(key, fallback, "default");
+  }
+  return record(key, found.raw as T, found.source);
+};
+
+// カンマ区切りのリストの設定値を読み込む関数
+// 前後の空白と空要素は取り除きます
+const list = (key: string, fallback: string[]): string[] => {
+  const found = readRaw(key);
+  if (!found) {
+    return record(key, fallback, "default");
+  }
+  const values = found.raw
+    .split(",")
+    .map((value) => value.trim())
+    .filter((value) => value.length > 0);
+  if (values.length === 0) {
+    errors.push(`${key}: 1つ以上の値を指定してください`);
+    return record(key, fallback, "default");
+  }
+  return record(key, values, found.source);
+};
+
+// 実行環境
+// "production"の場合は、既定の秘密鍵など安全でない設定での起動を拒否します
+export const NODE_ENV = oneOf(
+  "NODE_ENV",
+  ["development", "production", "test"] as const,
+  "development",
+);
+
 // JWT（JSON Web Token）設定
 // 認証に使用されるJWTの設定です
 // JWT_SECRETはトークンの署名に使用される秘密鍵です
-export const JWT_SECRET = process.env.JWT_SECRET || "your-secret-key";
-// JWT_EXPIRES_INはトークンの有効期限です（1時間）
-export const JWT_EXPIRES_IN = "1h";
+// 既定値は開発用のため、本番環境（NODE_ENV=production）では必ず変更する必要があります
+const DEFAULT_JWT_SECRET = "your-secret-key";
+export const JWT_SECRET = str("JWT_SECRET", DEFAULT_JWT_SECRET, {
+  secret: true,
+});
+// JWT_EXPIRES_INはトークンの有効期限です（例: 3600（秒）、30m、1h、7d）
+// jsonwebtokenは単位のない文字列をミリ秒として扱うため、数字のみの値は秒数の数値に変換して渡します
+const jwtExpiresIn = str("JWT_EXPIRES_IN", "1h", {
+  pattern: /^\d+[smhd]?$/,
+});
+export const JWT_EXPIRES_IN: number | `${number}${"s" | "m" | "h" | "d"}` =
+  /^\d+$/.test(jwtExpiresIn)
+    ? Number(jwtExpiresIn)
+    : (jwtExpiresIn as `${number}${"s" | "m" | "h" | "d"}`);
+// REFRESH_TOKEN_TTL_MSはリフレッシュトークンの有効期間（ミリ秒）です
+// この期間内であれば、ユーザーは再ログインせずにアクセストークンを更新できます
+export const REFRESH_TOKEN_TTL_MS = int(
+  "REFRESH_TOKEN_TTL_MS",
+  7 * 24 * 60 * 60 * 1000,
+  { min: 60 * 1000 },
+);
+// SSE_TICKET_TTL_MSはSSE接続チケットの有効期間（ミリ秒）です
+// チケットは発行後すぐにSSE接続に使用されるため、数秒〜数十秒で十分です
+export const SSE_TICKET_TTL_MS = int("SSE_TICKET_TTL_MS", 30000, {
+  min: 1000,
+  max: 5 * 60 * 1000,
+});
+
+// 認証クッキー設定
+// ログイン時にサーバーが設定する認証クッキー（HttpOnly）の属性です
+// COOKIE_SECUREはSecure属性を付けるかどうかです
+// Secure属性のクッキーはHTTPSでのみ送信されます（多くのブラウザはlocalhostを例外として扱います）
+export const COOKIE_SECURE =
+  oneOf("COOKIE_SECURE", ["true", "false"] as const, "true") === "true";
+// COOKIE_SAME_SITEはSameSite属性です
+// フロントエンドとバックエンドが別のサイトにある場合は"none"（Secure属性が必要）を指定します
+export const COOKIE_SAME_SITE = oneOf(
+  "COOKIE_SAME_SITE",
+  ["strict", "lax", "none"] as const,
+  "lax",
+);
+
+// 役割設定
+// ユーザーの役割の一覧です（権限の低い順）
+// 上位の役割は下位の役割の権限をすべて持ちます
+// - viewer: イベントの受信のみ
+// - publisher: メッセージの送信
+// - admin: 管理APIの利用
+export const ROLES = ["viewer", "publisher", "admin"] as const;
+export type Role = (typeof ROLES)[number];
+// DEFAULT_ROLEはユーザー登録（POST /api/register）で作成されるユーザーの役割です
+export const DEFAULT_ROLE = oneOf<Role>("DEFAULT_ROLE", ROLES, "viewer");
+// CHANNEL_ROLESは購読・送信に役割が必要なチャンネルです（"チャンネル名:役割"のカンマ区切り）
+// 例: "ops:publisher,audit:admin"
+// 指定したチャンネルのイベントは、その役割以上のユーザーの接続にのみ配信されます
+// 指定していないチャンネルは誰でも購読でき、publisher以上のユーザーが送信できます
+const CHANNEL_ROLE_ENTRIES = list("CHANNEL_ROLES", []);
+export const CHANNEL_ROLES: Record<string, Role> = {};
+CHANNEL_ROLE_ENTRIES.forEach((entry) => {
+  const [channel, role] = entry.split(":");
+  if (!channel || !ROLES.includes(role as Role)) {
+    errors.push(
+      `CHANNEL_ROLES: "${entry}" は "チャンネル名:役割"（役割は ${ROLES.join(" / ")}）の形式で指定してください`,
+    );
+    return;
+  }
+  CHANNEL_ROLES[channel] = role as Role;
+});
+
+// ユーザーストア設定
+// USER_STOREはユーザー情報を保存するユーザーストアの種類です
+// - file: JSONファイルに保存します。サーバーを再起動しても登録したユーザーが残ります
+// - memory: サーバーのメモリ上に保存します。再起動するとすべてのユーザーが失われます
+export const USER_STORE = oneOf(
+  "USER_STORE",
+  ["file", "memory"] as const,
+  "file",
+);
+// USER_STORE_FILEはファイルストアが使用するJSONファイルのパスです
+// 開発用のユーザーは npm run seed で作成できます
+export const USER_STORE_FILE = str("USER_STORE_FILE", "data/users.json");
+// BCRYPT_ROUNDSはパスワードをハッシュ化する際のコスト（2の累乗回の計算）です
+// 値を1増やすとハッシュ化にかかる時間が約2倍になり、総当たり攻撃に強くなります
+export const BCRYPT_ROUNDS = int("BCRYPT_ROUNDS", 10, { min: 4, max: 15 });
+// PASSWORD_MIN_LENGTHは登録・変更時に受け付けるパスワードの最小文字数です
+export const PASSWORD_MIN_LENGTH = int("PASSWORD_MIN_LENGTH", 8, {
+  min: 1,
+  max: 72,
+});
+// DEV_PASSWORD_SHORTCUTは開発用の簡易認証を有効にするかどうかです
+// 有効にすると、存在するユーザーであればパスワード"password"で誰でもログインできます
+// 本番環境（NODE_ENV=production）では有効にできません
+export const DEV_PASSWORD_SHORTCUT =
+  oneOf("DEV_PASSWORD_SHORTCUT", ["true", "false"] as const, "false") ===
+  "true";
+
+// APIキーストア設定
+// APIキーは、CIジョブや他のサービスがユーザーとしてログインせずにメッセージを送信するための認証情報です
+// API_KEY_STOREはAPIキーを保存するストアの種類です（fileまたはmemory。USER_STOREと同じ）
+export const API_KEY_STORE = oneOf(
+  "API_KEY_STORE",
+  ["file", "memory"] as const,
+  "file",
+);
+// API_KEY_STORE_FILEはファイルストアが使用するJSONファイルのパスです
+export const API_KEY_STORE_FILE = str(
+  "API_KEY_STORE_FILE",
+  "data/api-keys.json",
+);
+
+// レート制限設定
+// 送信とログインのリクエスト数をトークンバケット方式で制限します
+// バケットにはBURSTの数までトークンが溜まり、1分あたりLIMITの割合で補充されます
+// リクエストごとにトークンを1つ消費し、トークンがない場合は429エラーで拒否します
+// PUBLISH_RATE_LIMIT_PER_IPは送信エンドポイント（/send-messageなど）への接続元IPアドレスごとの1分あたりの上限です
+// PUBLISH_RATE_LIMIT_PER_USERは送信エンドポイントへのユーザーごとの1分あたりの上限です
+// 0を指定するとその制限を無効にします
+export const PUBLISH_RATE_LIMIT_PER_IP = int("PUBLISH_RATE_LIMIT_PER_IP", 60);
+export const PUBLISH_RATE_LIMIT_PER_USER = int(
+  "PUBLISH_RATE_LIMIT_PER_USER",
+  30,
+);
+// PUBLISH_RATE_BURSTは送信エンドポイントで連続して受け付けるリクエスト数の上限です
+export const PUBLISH_RATE_BURST = int("PUBLISH_RATE_BURST", 10, { min: 1 });
+// LOGIN_RATE_LIMIT_PER_IPはログイン・ユーザー登録への接続元IPアドレスごとの1分あたりの上限です（0で無効）
+export const LOGIN_RATE_LIMIT_PER_IP = int("LOGIN_RATE_LIMIT_PER_IP", 20);
+// LOGIN_RATE_BURSTはログイン・ユーザー登録で連続して受け付けるリクエスト数の上限です
+export const LOGIN_RATE_BURST = int("LOGIN_RATE_BURST", 10, { min: 1 });
+
+// ログイン失敗によるロックアウト設定
+// 同じユーザー名と接続元IPアドレスの組み合わせでログインに続けて失敗すると、一定時間ログインを拒否します
+// LOGIN_LOCKOUT_THRESHOLDはロックアウトするまでに許容する失敗回数です（0で無効）
+export const LOGIN_LOCKOUT_THRESHOLD = int("LOGIN_LOCKOUT_THRESHOLD", 5);
+// LOGIN_LOCKOUT_USER_THRESHOLDは接続元IPアドレスにかかわらず、ユーザー名ごとに許容する失敗回数です（0で無効）
+// 多数のIPアドレスから1人のユーザーのパスワードを試す攻撃を防ぎます
+// 第三者が本人をロックアウトさせにくいよう、LOGIN_LOCKOUT_THRESHOLDより大きい値にします
+export const LOGIN_LOCKOUT_USER_THRESHOLD = int(
+  "LOGIN_LOCKOUT_USER_THRESHOLD",
+  20,
+);
+// LOGIN_LOCKOUT_BASE_MSは最初のロックアウトの時間（ミリ秒）です
+// その後も失敗するたびに2倍になり、LOGIN_LOCKOUT_MAX_MSで頭打ちになります
+export const LOGIN_LOCKOUT_BASE_MS = int("LOGIN_LOCKOUT_BASE_MS", 30000, {
+  min: 1000,
+});
+export const LOGIN_LOCKOUT_MAX_MS = int(
+  "LOGIN_LOCKOUT_MAX_MS",
+  15 * 60 * 1000,
+  {
+    min: 1000,
+  },
+);
+// LOGIN_FAILURE_WINDOW_MSは失敗回数を覚えておく時間（ミリ秒）です
+// 最後の失敗からこの時間が過ぎると、失敗回数は0に戻ります
+export const LOGIN_FAILURE_WINDOW_MS = int(
+  "LOGIN_FAILURE_WINDOW_MS",
+  15 * 60 * 1000,
+  { min: 1000 },
+);
 
 // サーバー設定
 // PORTはサーバーが待ち受けるポート番号です
 // 環境変数から取得するか、デフォルト値として3000を使用します
-export const PORT = process.env.PORT || 3000;
-// FRONTEND_URLはCORS設定に使用されるフロントエンドのURLです
+export const PORT = int("PORT", 3000, { min: 1, max: 65535 });
+// FRONTEND_URLはフロントエンドのURLです
 // 環境変数から取得するか、デフォルト値としてlocalhost:3001を使用します
-export const FRONTEND_URL = process.env.FRONTEND_URL || "http://localhost:3001";
+export const FRONTEND_URL = str("FRONTEND_URL", "http://localhost:3001", {
+  pattern: /^https?:\/\//,
+});
+// CORS_ORIGINSはCORSでリクエストを許可するオリジンの一覧です（カンマ区切り）
+// 指定しない場合はFRONTEND_URLのみを許可します
+export const CORS_ORIGINS = list("CORS_ORIGINS", [FRONTEND_URL]);
+// TRUST_PROXYはX-Forwarded-Forヘッダーを信頼するプロキシの指定です（Expressの"trust proxy"設定）
+// - false: 信頼しません。接続元のアドレスをクライアントのIPアドレスとして使用します（既定）
+// - true: すべてのプロキシを信頼します
+// - 数値: 信頼するプロキシの段数（例: ロードバランサーが1台の場合は1）
+// - アドレス: 信頼するプロキシのアドレス・サブネット（例: loopback、10.0.0.0/8。カンマ区切り）
+// X-Forwarded-Forヘッダーはクライアントが自由に指定できるため、プロキシを経由しない構成で有効にすると、
+// IPアドレスごとのレート制限・ロックアウト・接続数の上限を回避されてしまいます
+const TRUST_PROXY_RAW = str("TRUST_PROXY", "false");
+export const TRUST_PROXY: boolean | number | string[] =
+  TRUST_PROXY_RAW === "false"
+    ? false
+    : TRUST_PROXY_RAW === "true"
+      ? true
+      : /^\d+$/.test(TRUST_PROXY_RAW)
+        ? Number(TRUST_PROXY_RAW)
+        : TRUST_PROXY_RAW.split(",")
+            .map((value) => value.trim())
+            .filter((value) => value.length > 0);
 
 // SSE（Server-Sent Events）設定
 // MAX_CLIENTSは同時に接続できるSSEクライアントの最大数です
 // この制限を超えると、新しい接続は503エラーで拒否されます
 // サーバーリソースの過負荷を防ぐために重要です
-export const MAX_CLIENTS = 1000;
+export const MAX_CLIENTS = int("MAX_CLIENTS", 1000, { min: 1 });
+// MAX_CLIENTS_PER_USERは1人の認証済みユーザーが同時に確立できるSSE接続の最大数です
+// MAX_CLIENTS_PER_IPは1つの接続元IPアドレスから同時に確立できるSSE接続の最大数です
+// 再接続を繰り返す1つのブラウザが接続枠を使い切るのを防ぎます（0の場合は制限しません）
+export const MAX_CLIENTS_PER_USER = int("MAX_CLIENTS_PER_USER", 10);
+export const MAX_CLIENTS_PER_IP = int("MAX_CLIENTS_PER_IP", 50);
+// CONNECTION_LIMIT_POLICYはユーザーごとの接続数が上限に達した場合の対応方法です
+// "reject": 新しい接続を429エラーで拒否します
+// "evict-oldest": そのユーザーの最も古い接続を切断して、新しい接続を受け付けます
+// IPアドレスごとの上限に達した場合は、常に新しい接続を拒否します
+export type ConnectionLimitPolicy = "reject" | "evict-oldest";
+export const CONNECTION_LIMIT_POLICY = oneOf<ConnectionLimitPolicy>(
+  "CONNECTION_LIMIT_POLICY",
+  ["reject", "evict-oldest"],
+  "reject",
+);
+// CONNECTION_LIMIT_RETRY_AFTER_SECは接続数の上限で拒否した際にRetry-Afterヘッダーで提案する待ち時間（秒）です
+export const CONNECTION_LIMIT_RETRY_AFTER_SEC = int(
+  "CONNECTION_LIMIT_RETRY_AFTER_SEC",
+  10,
+  { min: 1 },
+);
 // MAX_CACHE_SIZEはイベントキャッシュの最大サイズです
 // 再接続時に失われたイベントを再送するために使用されるキャッシュの上限です
 // メモリ使用量を制限するために重要です
-export const MAX_CACHE_SIZE = 100;
+export const MAX_CACHE_SIZE = int("MAX_CACHE_SIZE", 100, { min: 1 });
+// SSE_RETRY_MSはSSE接続時にクライアントへ指示する再接続間隔（ミリ秒）の既定値です
+// 接続が切れた場合、ブラウザはこの時間の後に自動的に再接続を試みます
+export const SSE_RETRY_MS = int("SSE_RETRY_MS", 3000, { min: 100 });
+// SSE_MAX_LIFETIME_MSはSSE接続を維持する最大時間（ミリ秒）の既定値です
+// この時間を過ぎた接続はサーバーから閉じ、クライアントの再接続を促します
+// 30分 = 30 * 60 * 1000ミリ秒
+export const SSE_MAX_LIFETIME_MS = int("SSE_MAX_LIFETIME_MS", 30 * 60 * 1000, {
+  min: 1000,
+});
+// AUTH_EXPIRY_WARNING_MSは認証付きSSE接続で、トークンの有効期限の何ミリ秒前に'auth-expired'イベントを送信するかです
+// クライアントはこのイベントを受け取るとトークンを更新し、有効期限で接続が閉じられる前に再接続します
+export const AUTH_EXPIRY_WARNING_MS = int("AUTH_EXPIRY_WARNING_MS", 30000, {
+  min: 0,
+});
+// EVENT_STOREは再送用のイベントを保存するイベントストアの種類です
+// "memory": メモリ内に保存します。サーバーを再起動するとイベントとIDが失われます
+// "file": 追記専用のログファイルに保存します。再起動後もイベントとIDが復元されます
+export const EVENT_STORE = oneOf(
+  "EVENT_STORE",
+  ["memory", "file"] as const,
+  "memory",
+);
+// EVENT_STORE_FILEはファイルストアが使用するログファイルのパスです
+export const EVENT_STORE_FILE = str("EVENT_STORE_FILE", "data/events.log");
+// EVENT_RETENTION_MSはイベントを再送用に保持する期間（ミリ秒）です
+// この期間を過ぎたイベントは件数の上限に関係なく削除されます（0で無期限）
+export const EVENT_RETENTION_MS = int("EVENT_RETENTION_MS", 60 * 60 * 1000);
+// DEFAULT_CHANNELはチャンネルを指定しない接続・送信で使用されるチャンネル名です
+// クライアントが購読チャンネルを指定しない場合、このチャンネルのみを購読します
+export const DEFAULT_CHANNEL = "general";
+// CHANNEL_NAME_PATTERNはチャンネル名として許可される文字列のパターンです
+// 英数字、ハイフン、アンダースコアのみ、最大64文字まで許可します
+export const CHANNEL_NAME_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+// ハートビート設定
+// HEARTBEAT_INTERVAL_MSはアイドル中の接続にハートビートを送信する間隔（ミリ秒）です
+// プロキシやロードバランサーが無通信の接続を切断するのを防ぎます
+// 0を指定するとハートビートを無効にします
+export const HEARTBEAT_INTERVAL_MS = int("HEARTBEAT_INTERVAL_MS", 15000);
+// HEARTBEAT_MODEはハートビートの形式です
+// "comment": SSEのコメント行（": ping"）を送信します。クライアントのイベントハンドラーは呼ばれません
+// "ping": 'ping'イベントを送信します。クライアント側で受信を検知したい場合に使用します
+export const HEARTBEAT_MODE = oneOf(
+  "HEARTBEAT_MODE",
+  ["comment", "ping"] as const,
+  "comment",
+);
+// MAX_WRITE_FAILURESは接続を切断済みとみなすまでに許容する連続書き込み失敗回数です
+// この回数を超えたクライアントはクライアントリストから削除されます
+export const MAX_WRITE_FAILURES = int("MAX_WRITE_FAILURES", 3, { min: 1 });
+
+// バックプレッシャー設定
+// CLIENT_BUFFER_LIMIT_BYTESはクライアントごとに送信待ちとして保持できるデータの上限（バイト）です
+// 受信の遅いクライアントのためにNode.jsがメモリ上にデータを溜め込み続けるのを防ぎます
+export const CLIENT_BUFFER_LIMIT_BYTES = int(
+  "CLIENT_BUFFER_LIMIT_BYTES",
+  1024 * 1024,
+  { min: 1024 },
+);
+// SLOW_CONSUMER_POLICYは送信待ちのデータが上限を超えたクライアントへの対応方法です
+// "drop-oldest": 送信待ちの古いイベントから破棄します
+// "drop-non-critical": 重要でないイベント（NON_CRITICAL_EVENT_TYPES）を破棄し、それでも超える場合は切断します
+// "disconnect": 'slow-consumer'イベントを送信して切断します
+export type SlowConsumerPolicy =
+  | "drop-oldest"
+  | "drop-non-critical"
+  | "disconnect";
+export const SLOW_CONSUMER_POLICY = oneOf<SlowConsumerPolicy>(
+  "SLOW_CONSUMER_POLICY",
+  ["drop-oldest", "drop-non-critical", "disconnect"],
+  "disconnect",
+);
+// NON_CRITICAL_EVENT_TYPESは受信の遅いクライアントに対して破棄してもよいイベントの種類です
+// 'partial-message'は後続のチャンクが累積メッセージを含むため、途中のチャンクが欠けても問題ありません
+export const NON_CRITICAL_EVENT_TYPES = ["partial-message", "ping"];
+
+// ストリーミング設定
+// STREAM_CHUNK_DELAY_MSは/stream-messageでチャンクを送信する間隔（ミリ秒）です
+// この遅延により、タイピング中のような段階的な表示効果が生まれます
+export const STREAM_CHUNK_DELAY_MS = int("STREAM_CHUNK_DELAY_MS", 100);
+// MAX_MESSAGE_LENGTHは送信できるメッセージの最大文字数です
+// 長すぎるメッセージがすべての接続に配信され、再送用に保持されるのを防ぎます
+export const MAX_MESSAGE_LENGTH = int("MAX_MESSAGE_LENGTH", 1000, {
+  min: 1,
+  max: 100000,
+});
+
+// ブローカー設定
+// BROKERは複数のバックエンドインスタンス間でイベントを中継するブローカーの種類です
+// "memory": 同じプロセス内でのみ中継します（単一インスタンス用）
+// "redis": RedisのPub/Subを使用して、すべてのインスタンスに中継します
+export const BROKER = oneOf("BROKER", ["memory", "redis"] as const, "memory");
+// REDIS_URLはRedisブローカーが接続するRedisサーバーのURLです
+export const REDIS_URL = str("REDIS_URL", "redis://localhost:6379", {
+  pattern: /^rediss?:\/\//,
+  secret: true,
+});
+// BROKER_CHANNELはインスタンス間でイベントを中継するRedisのチャンネル名です
+export const BROKER_CHANNEL = str("BROKER_CHANNEL", "sse-tutorial:events");
+// INSTANCE_IDはこのインスタンスの識別子です
+// 自分が発行したイベントをブローカーから受信した際に、二重に配信しないために使用されます
+export const INSTANCE_ID = str(
+  "INSTANCE_ID",
+  `${process.pid}-${Date.now().toString(36)}`,
+);
+
+// シャットダウン設定
+// SHUTDOWN_TIMEOUT_MSはシャットダウン時に送信中のストリーミングの完了を待つ最大時間（ミリ秒）です
+// この時間を過ぎたストリーミングは中止されます
+export const SHUTDOWN_TIMEOUT_MS = int("SHUTDOWN_TIMEOUT_MS", 10000);
+// SHUTDOWN_RETRY_MSはシャットダウン時にクライアントへ提案する再接続間隔（ミリ秒）です
+// 新しいインスタンスが起動するまでの時間を考慮して設定します
+export const SHUTDOWN_RETRY_MS = int("SHUTDOWN_RETRY_MS", 5000, { min: 100 });
+
+// ===== 設定の検証結果 =====
+
+// 本番環境で既定の秘密鍵を使用している場合は起動を拒否します
+// 既定の秘密鍵は公開されているため、誰でも有効なトークンを偽造できてしまいます
+if (NODE_ENV === "production" && JWT_SECRET === DEFAULT_JWT_SECRET) {
+  errors.push(
+    "JWT_SECRET: 本番環境（NODE_ENV=production）では既定の秘密鍵を使用できません",
+  );
+}
+
+// 役割が必要なチャンネルの名前が不正な場合は、そのチャンネルを購読・送信できません
+Object.keys(CHANNEL_ROLES)
+  .filter((channel) => !CHANNEL_NAME_PATTERN.test(channel))
+  .forEach((channel) => {
+    errors.push(`CHANNEL_ROLES: "${channel}" はチャンネル名として不正です`);
+  });
+
+// 開発用の簡易認証は、パスワードを知らなくても誰でもログインできてしまいます
+if (NODE_ENV === "production" && DEV_PASSWORD_SHORTCUT) {
+  errors.push(
+    "DEV_PASSWORD_SHORTCUT: 本番環境（NODE_ENV=production）では有効にできません",
+  );
+}
+
+// SameSite=NoneのクッキーはSecure属性がないとブラウザに拒否されます
+if (COOKIE_SAME_SITE === "none" && !COOKIE_SECURE) {
+  errors.push(
+    "COOKIE_SAME_SITE: noneを指定する場合はCOOKIE_SECURE=trueが必要です",
+  );
+}
+
+// ロックアウトの最大時間が最初のロックアウトより短いと、失敗を重ねるほど早く解除されてしまいます
+if (LOGIN_LOCKOUT_MAX_MS < LOGIN_LOCKOUT_BASE_MS) {
+  errors.push(
+    "LOGIN_LOCKOUT_MAX_MS: LOGIN_LOCKOUT_BASE_MS以上の値を指定してください",
+  );
+}
+
+// 問題が見つかった場合は、すべての問題をまとめてエラーを投げます
+// サーバーは不正な設定のまま起動しません
+if (errors.length > 0) {
+  throw new Error(
+    `設定が不正なためサーバーを起動できません:\n${errors
+      .map((error) => `  - ${error}`)
+      .join("\n")}`,
+  );
+}
+
+// 有効な設定の一覧を返す関数
+// サーバー起動時にログへ出力し、どの値がどこから読み込まれたかを確認できるようにします
+// 秘密鍵などの値は伏せて表示します
+export const describeConfig = (): string[] => {
+  return entries.map(({ key, value, source, secret }) => {
+    const shown = secret
+      ? "********"
+      : Array.isArray(value)
+        ? value.join(",")
+        : String(value);
+    return `${key}=${shown} (${source})`;
+  });
+};
+
+// 既定の秘密鍵を使用しているかどうか
+// 開発環境では起動できますが、起動時に警告を表示します
+export const USING_DEFAULT_JWT_SECRET = JWT_SECRET === DEFAULT_JWT_SECRET;
@@ -0,0 +1,344 @@
+// 管理コントローラー
+// このファイルは接続中のSSEクライアントを確認・操作する管理API（管理者専用）を提供します
+// ダッシュボードが更新されないなどの問題を調査する際に、ログを読まずに接続状態を確認できます
+import { Request, Response } from "express";
+// クライアントレジストリを操作する関数をインポートします
+import {
+  Client,
+  findClient,
+  getClients,
+  getUserClients,
+} from "../models/client";
+// クライアントへのイベント送信と切断に使用する関数をインポートします
+import { sendEvent, disconnectClient, bufferedBytes } from "../models/event";
+// ユーザーのセッションを失効させる関数をインポートします
+import { revokeUserSessions } from "../models/session";
+// ユーザーの検索・作成・更新・削除に使用する関数をインポートします
+import {
+  userRepository,
+  findUserById,
+  toPublicUser,
+  hashPassword,
+} from "../models/user";
+// APIキーの発行・一覧・失効に使用する関数をインポートします
+import {
+  apiKeyRepository,
+  issueApiKey,
+  revokeApiKey,
+  toPublicApiKey,
+} from "../models/apiKey";
+// ログ出力用の関数をインポートします
+import { logInfo } from "../utils/logger";
+// エラーレスポンスを送信する関数をインポートします
+import { sendError } from "../utils/errors";
+
+// クライアントの情報をレスポンス用の形式に変換する関数
+// Expressのレスポンスオブジェクトや送信キューなどの内部状態は含めません
+const toClientSummary = (client: Client) => ({
+  id: client.id,
+  user: client.user
+    ? { id: client.user.id, username: client.user.username }
+    : null,
+  ip: client.ip,
+  userAgent: client.userAgent,
+  channels: [...client.channels],
+  connectedAt: new Date(client.connectedAt).toISOString(),
+  connectedSeconds: Math.round((Date.now() - client.connectedAt) / 1000),
+  lastEventId: client.lastEventId,
+  bytesSent: client.bytesSent,
+  eventsSent: client.eventsSent,
+  bufferedBytes: bufferedBytes(client),
+  failedWrites: client.failedWrites,
+});
+
+// URLパラメータのユーザーIDを解析する関数
+// IDが整数であることは入力値検証ミドルウェアで確認済みです
+// ユーザーが存在しない場合は404エラーを返し、nullを返します
+const resolveUserId = (req: Request, res: Response): number | null => {
+  const userId = Number(req.params.id);
+  if (!findUserById(userId)) {
+    sendError(res, 404, "NOT_FOUND", "ユーザーが見つかりません");
+    return null;
+  }
+  return userId;
+};
+
+// URLパラメータのクライアントIDからクライアントを検索する関数
+// 接続中のクライアントが見つからない場合は404エラーを返し、undefinedを返します
+const resolveClient = (req: Request, res: Response): Client | undefined => {
+  const client = findClient(String(req.params.id));
+  if (!client) {
+    sendError(res, 404, "NOT_FOUND", "クライアントが見つかりません");
+  }
+  return client;
+};
+
+// リクエストボディから切断理由を取得する関数
+// 指定されていない場合は既定の理由を返します
+const resolveReason = (req: Request): string => {
+  const reason = req.body?.reason;
+  return typeof reason === "string" && reason.length > 0
+    ? reason
+    : "管理者によって切断されました";
+};
+
+// 接続中のクライアント一覧を返すコントローラー
+// GET /admin/clients
+// ?userId= を指定した場合は、そのユーザーの接続のみを返します（整数であることは入力値検証ミドルウェアで確認済みです）
+export const listClients = (req: Request, res: Response): void => {
+  const userId = req.query.userId ? Number(req.query.userId) : undefined;
+  const targets = userId !== undefined ? getUserClients(userId) : getClients();
+  res.status(200).json({
+    success: true,
+    count: targets.length,
+    clients: targets.map(toClientSummary),
+  });
+};
+
+// ユーザーごとの接続統計を返すコントローラー
+// GET /admin/users/:id/stats
+// 接続数、送信したバイト数とイベント数の合計、各接続の情報を返します
+export const getUserStats = (req: Request, res: Response): void => {
+  const userId = resolveUserId(req, res);
+  if (userId === null) {
+    return;
+  }
+  const userClients = getUserClients(userId);
+  res.status(200).json({
+    success: true,
+    userId,
+    connections: userClients.length,
+    bytesSent: userClients.reduce((total, c) => total + c.bytesSent, 0),
+    eventsSent: userClients.reduce((total, c) => total + c.eventsSent, 0),
+    clients: userClients.map(toClientSummary),
+  });
+};
+
+// クライアントを強制的に切断するコントローラー
+// DELETE /admin/clients/:id
+// リクエストボディのreasonは切断理由としてクライアントに通知されます
+export const disconnectClientById = (req: Request, res: Response): void => {
+  const client = resolveClient(req, res);
+  if (!client) {
+    return;
+  }
+  const reason = resolveReason(req);
+  disconnectClient(client, reason);
+  logInfo(
+    `管理API - クライアント切断 - 管理者: ${req.user?.username} - クライアントID: ${client.id}`,
+  );
+  res.status(200).json({ success: true, disconnected: 1 });
+};
+
+// ユーザーのすべての接続を強制的に切断するコントローラー
+// DELETE /admin/users/:id/clients
+export const disconnectUserClients = (req: Request, res: Response): void => {
+  const userId = resolveUserId(req, res);
+  if (userId === null) {
+    return;
+  }
+  const reason = resolveReason(req);
+  const targets = getUserClients(userId);
+  targets.forEach((client) => disconnectClient(client, reason));
+  logInfo(
+    `管理API - ユーザー接続切断 - 管理者: ${req.user?.username} - ユーザーID: ${userId} - 切断数: ${targets.length}`,
+  );
+  res.status(200).json({ success: true, disconnected: targets.length });
+};
+
+// ユーザーをすべての端末からログアウトさせるコントローラー
+// DELETE /admin/users/:id/sessions
+// ユーザーのすべてのセッションのトークンを失効させ、すべての接続に'session-ended'イベントを送信して閉じます
+// disconnectUserClientsと異なり、クライアントは再接続できず、再度ログインする必要があります
+export const revokeUserSessionsById = (req: Request, res: Response): void => {
+  const userId = resolveUserId(req, res);
+  if (userId === null) {
+    return;
+  }
+  const reason =
+    typeof req.body?.reason === "string" && req.body.reason.length > 0
+      ? req.body.reason
+      : "管理者によってログアウトされました";
+  const closed = revokeUserSessions(userId, reason);
+  logInfo(
+    `管理API - ユーザーのセッション失効 - 管理者: ${req.user?.username} - ユーザーID: ${userId} - 切断数: ${closed}`,
+  );
+  res.status(200).json({ success: true, disconnected: closed });
+};
+
+// 1つの接続にシステムイベントを送信するコントローラー
+// POST /admin/clients/:id/events
+// リクエスト: { "message": "...", "type": "info" | "warning" | "error" }
+// イベントはイベントストアに保存されず、他の接続や再接続時には送信されません
+export const sendClientEvent = (req: Request, res: Response): void => {
+  const client = resolveClient(req, res);
+  if (!client) {
+    return;
+  }
+  // メッセージと種類は入力値検証ミドルウェアで確認済みです
+  const message: string = req.body.message;
+  const type: string = req.body.type || "info";
+  sendEvent(client, "system", { type, message });
+  logInfo(
+    `管理API - システムイベント送信 - 管理者: ${req.user?.username} - クライアントID: ${client.id}`,
+  );
+  res.status(200).json({ success: true, clientId: client.id });
+};
+
+// ユーザー一覧を返すコントローラー
+// GET /admin/users
+// パスワードのハッシュ値は含めません
+export const listUsers = (_req: Request, res: Response): void => {
+  const users = userRepository.list().map(toPublicUser);
+  res.status(200).json({ success: true, count: users.length, users });
+};
+
+// ユーザーを作成するコントローラー
+// POST /admin/users
+// リクエスト: { "username": "...", "password": "...", "role": "viewer" | "publisher" | "admin" }
+export const createUser = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  // ユーザー名・パスワード・役割の形式は入力値検証ミドルウェアで確認済みです
+  // 役割を省略した場合（空文字列を含む）はviewerとして作成します
+  const { username, password } = req.body;
+  const role = req.body.role || "viewer";
+
+  const user = userRepository.create({
+    username,
+    password: await hashPassword(password),
+    role,
+  });
+  if (!user) {
+    sendError(
+      res,
+      409,
+      "USERNAME_TAKEN",
+      "このユーザー名はすでに使用されています",
+    );
+    return;
+  }
+  logInfo(
+    `管理API - ユーザー作成 - 管理者: ${req.user?.username} - ユーザー: ${user.username} - 役割: ${user.role}`,
+  );
+  res.status(201).json({ success: true, user: toPublicUser(user) });
+};
+
+// ユーザーの役割・パスワードを変更するコントローラー
+// PATCH /admin/users/:id
+// リクエスト: { "role": "viewer" | "publisher" | "admin", "password": "..." }（どちらも省略可能）
+// 役割はトークンに含まれているため、変更した場合はユーザーのすべてのセッションを失効させます
+// パスワードを再設定した場合も同様に失効させ、新しいパスワードでの再ログインを求めます
+export const updateUser = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  const userId = resolveUserId(req, res);
+  if (userId === null) {
+    return;
+  }
+  // 役割とパスワードの形式は入力値検証ミドルウェアで確認済みです
+  // 省略された項目（空文字列を含む）は変更しません
+  const role = req.body?.role || undefined;
+  const password = req.body?.password || undefined;
+  if (role === undefined && password === undefined) {
+    sendError(
+      res,
+      400,
+      "VALIDATION_ERROR",
+      "変更する役割またはパスワードを指定してください",
+    );
+    return;
+  }
+  // 管理者がいなくなることを防ぐため、自分自身の役割は変更できません
+  if (role !== undefined && userId === req.user?.id) {
+    sendError(res, 400, "BAD_REQUEST", "自分自身の役割は変更できません");
+    return;
+  }
+
+  const user = userRepository.update(userId, {
+    ...(role !== undefined ? { role } : {}),
+    ...(password !== undefined
+      ? { password: await hashPassword(password) }
+      : {}),
+  });
+  if (!user) {
+    sendError(res, 404, "NOT_FOUND", "ユーザーが見つかりません");
+    return;
+  }
+  const closed = revokeUserSessions(
+    userId,
+    "アカウント情報が変更されました。再度ログインしてください",
+  );
+  logInfo(
+    `管理API - ユーザー更新 - 管理者: ${req.user?.username} - ユーザー: ${user.username} - 役割: ${user.role} - 切断数: ${closed}`,
+  );
+  res
+    .status(200)
+    .json({ success: true, user: toPublicUser(user), disconnected: closed });
+};
+
+// ユーザーを削除するコントローラー
+// DELETE /admin/users/:id
+// ユーザーのすべてのセッションを失効させ、接続中のストリームを閉じてから削除します
+export const deleteUser = (req: Request, res: Response): void => {
+  const userId = resolveUserId(req, res);
+  if (userId === null) {
+    return;
+  }
+  if (userId === req.user?.id) {
+    sendError(res, 400, "BAD_REQUEST", "自分自身は削除できません");
+    return;
+  }
+
+  const closed = revokeUserSessions(userId, "アカウントが削除されました");
+  userRepository.remove(userId);
+  logInfo(
+    `管理API - ユーザー削除 - 管理者: ${req.user?.username} - ユーザーID: ${userId} - 切断数: ${closed}`,
+  );
+  res.status(200).json({ success: true, disconnected: closed });
+};
+
+// APIキー一覧を返すコントローラー
+// GET /admin/api-keys
+// 失効したAPIキーも含めて返します。キーのハッシュ値は含めません
+export const listApiKeys = (_req: Request, res: Response): void => {
+  const apiKeys = apiKeyRepository.list().map(toPublicApiKey);
+  res.status(200).json({ success: true, count: apiKeys.length, apiKeys });
+};
+
+// APIキーを発行するコントローラー
+// POST /admin/api-keys
+// リクエスト: { "name": "...", "channels": ["alerts"], "eventTypes": ["message"] }（channels・eventTypesは省略可能）
+// channels・eventTypesを省略した場合は、すべてのチャンネル・イベントの種類に送信できるAPIキーを発行します
+// キーそのものはこのレスポンスでのみ返します。サーバーにはハッシュ値のみを保存するため、再表示できません
+export const createApiKey = (req: Request, res: Response): void => {
+  // 名前・チャンネル・イベントの種類の形式は入力値検証ミドルウェアで確認済みです
+  const { apiKey, key } = issueApiKey({
+    name: req.body.name,
+    channels: req.body.channels ?? null,
+    eventTypes: req.body.eventTypes ?? null,
+    createdBy: req.user?.username ?? "unknown",
+  });
+  logInfo(
+    `管理API - APIキー発行 - 管理者: ${req.user?.username} - APIキー: ${apiKey.name} (${apiKey.prefix}) - チャンネル: ${apiKey.channels?.join(",") ?? "すべて"} - イベント: ${apiKey.eventTypes?.join(",") ?? "すべて"}`,
+  );
+  res.status(201).json({ success: true, apiKey: toPublicApiKey(apiKey), key });
+};
+
+// APIキーを失効させるコントローラー
+// DELETE /admin/api-keys/:id
+// 失効したAPIキーによる送信は、以降すべて401エラーになります
+export const revokeApiKeyById = (req: Request, res: Response): void => {
+  // IDが整数であることは入力値検証ミドルウェアで確認済みです
+  const apiKey = revokeApiKey(Number(req.params.id));
+  if (!apiKey) {
+    sendError(res, 404, "NOT_FOUND", "APIキーが見つかりません");
+    return;
+  }
+  logInfo(
+    `管理API - APIキー失効 - 管理者: ${req.user?.username} - APIキー: ${apiKey.name} (${apiKey.prefix})`,
+  );
+  res.status(200).json({ success: true, apiKey: toPublicApiKey(apiKey) });
+};
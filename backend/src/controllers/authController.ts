@@ -4,120 +4,488 @@
 import { Request, Response } from "express";
 // JWTトークンを生成するためのライブラリをインポートします
 import jwt from "jsonwebtoken";
-// パスワードハッシュを検証するためのライブラリをインポートします
-import bcrypt from "bcrypt";
-// ユーザー検索関数をインポートします
-import { findUserByUsername } from "../models/user";
-// JWT設定（秘密鍵、有効期限）を設定ファイルからインポートします
-import { JWT_SECRET, JWT_EXPIRES_IN } from "../config/index";
+// ユーザーの検索・登録と、パスワードの検証・ハッシュ化を行う関数をインポートします
+import {
+  User,
+  userRepository,
+  findUserByUsername,
+  findUserById,
+  toPublicUser,
+  hashPassword,
+  verifyPassword,
+} from "../models/user";
+// JWT設定（秘密鍵、有効期限）と開発用の簡易認証の設定を設定ファイルからインポートします
+import {
+  JWT_SECRET,
+  JWT_EXPIRES_IN,
+  DEV_PASSWORD_SHORTCUT,
+  DEFAULT_ROLE,
+} from "../config/index";
+// エラーレスポンスを送信する関数をインポートします
+import { sendError } from "../utils/errors";
+// クライアントのIPアドレスを取得する関数をインポートします
+import { getClientIP } from "../utils/clientIp";
 // ログイン試行をログに記録するための関数をインポートします
-import { logLogin } from "../utils/logger";
+import { logInfo, logLogin, logWarning } from "../utils/logger";
+// SSE接続チケットを発行する関数をインポートします
+import { issueTicket } from "../models/ticket";
+// リフレッシュトークンを発行・ローテーションする関数をインポートします
+import {
+  issueRefreshToken,
+  rotateRefreshToken,
+  findRefreshTokenFamily,
+} from "../models/refreshToken";
+// 認証クッキーを読み書きする関数をインポートします
+import {
+  REFRESH_COOKIE,
+  readCookie,
+  setSessionCookies,
+  clearSessionCookies,
+} from "../utils/cookies";
+// セッションを失効させる（ログアウトする）関数をインポートします
+import { revokeSession, revokeUserSessions } from "../models/session";
+// ログイン試行の回数を記録するメトリクスをインポートします
+import { loginAttemptsTotal } from "../utils/metrics";
+// ログインに続けて失敗したクライアントをロックアウトする関数をインポートします
+import {
+  reserveLoginAttempt,
+  recordLoginSuccess,
+} from "../models/loginLockout";
+import { FailureState } from "../models/rateLimitStore";
+
+// ログイン試行を記録する関数
+// ログに出力し、メトリクスの成功・失敗の回数を更新します
+// 失敗回数はreserveLoginAttemptで予約済みのため、成功した場合のみ失敗回数を0に戻します
+// lockedは予約時に返された、この失敗によってロックアウトされる状態です
+const recordLogin = async (
+  username: string,
+  success: boolean,
+  reason: string,
+  clientIP: string,
+  locked: FailureState | null,
+): Promise<void> => {
+  logLogin(username, success, reason, clientIP);
+  loginAttemptsTotal.inc({ result: success ? "success" : "failure" });
+
+  if (success) {
+    await recordLoginSuccess(username, clientIP);
+    return;
+  }
+  if (locked) {
+    logWarning(
+      `ログイン失敗が続いたためロックアウト - ユーザー: ${username} - 失敗回数: ${locked.failures} - 解除まで: ${Math.ceil((locked.lockedUntil - Date.now()) / 1000)}秒 - クライアント: ${clientIP}`,
+    );
+  }
+};
+
+// レスポンスとして返すトークンを作成する関数
+// JWTアクセストークンを生成し、リフレッシュトークンと合わせて返します
+// - token: アクセストークン（JWT）
+// - expiresIn: アクセストークンの有効期間（秒）。クライアントはこの期限の前にトークンを更新します
+// - refreshToken: アクセストークンの更新に使用するリフレッシュトークン
+// - refreshExpiresIn: リフレッシュトークンの有効期間（秒）
+// - user: ログインしているユーザーの情報
+const createTokenResponse = (
+  user: User,
+  refresh: { token: string; expiresAt: number; familyId: string },
+) => {
+  // JWTトークンの生成
+  // ユーザーID、ユーザー名、ロール、セッションIDを含むペイロードでトークンを作成します
+  // セッションIDはリフレッシュトークンのファミリーIDで、ログアウト時にトークンを失効させるために使用します
+  const token = jwt.sign(
+    {
+      id: user.id,
+      username: user.username,
+      role: user.role,
+      sid: refresh.familyId,
+    },
+    JWT_SECRET,
+    {
+      expiresIn: JWT_EXPIRES_IN, // トークンの有効期限（設定ファイルで定義）
+    },
+  );
+  // 有効期間はトークンに記録された発行時刻と有効期限から計算します
+  const { iat, exp } = jwt.decode(token) as { iat: number; exp: number };
+  return {
+    token,
+    expiresIn: exp - iat,
+    refreshToken: refresh.token,
+    refreshExpiresIn: Math.round((refresh.expiresAt - Date.now()) / 1000),
+    user: toPublicUser(user),
+  };
+};
+
+// ログイン・トークン更新の成功レスポンスを送信する関数
+// トークンをHttpOnlyのクッキーに設定し、ブラウザのJavaScriptからトークンを扱わなくてよいようにします
+// includeTokensがtrueの場合は、Authorizationヘッダーを使用するクライアント向けにトークンをボディにも含めます
+// ブラウザにはボディで返さず、トークンがJavaScriptから読み取れないようにします
+const sendTokens = (
+  res: Response,
+  tokens: ReturnType<typeof createTokenResponse>,
+  includeTokens: boolean,
+  status = 200,
+): void => {
+  setSessionCookies(res, tokens);
+  const { token, refreshToken, ...rest } = tokens;
+  res
+    .status(status)
+    .json(includeTokens ? { token, refreshToken, ...rest } : rest);
+};
+
+// トークンをレスポンスのボディにも含めるかどうかを返す関数
+// Authorizationヘッダーを使用するクライアント（ブラウザ以外）は、リクエストボディでincludeTokens: trueを指定します
+// 指定がない場合は、/api/refreshでクッキーを使用した場合と同じくクッキーにのみ設定します
+const wantsBodyTokens = (req: Request): boolean => {
+  return req.body?.includeTokens === true;
+};
 
 // ログインコントローラー
 // このコントローラーはユーザー認証を処理し、成功した場合はJWTトークンを発行します
 // 認証付きSSEエンドポイント（/secure-events）にアクセスするために必要なトークンを提供します
-export const login = (req: Request, res: Response): void => {
+export const login = async (req: Request, res: Response): Promise<void> => {
   // リクエストボディからユーザー名とパスワードを取得します
-  const { username, password } = req.body;
-  // クライアントのIPアドレスを取得します（ロギングとデバッグ用）
-  const clientIP =
-    req.headers["x-forwarded-for"] || req.socket.remoteAddress || "unknown";
+  // どちらも文字列であることは入力値検証ミドルウェアで確認済みです
+  const { username, password } = req.body as {
+    username: string;
+    password: string;
+  };
+  // クライアントのIPアドレスを取得します（ロックアウトとロギング用）
+  const clientIP = getClientIP(req);
+
+  // ロックアウトの確認と試行の予約
+  // パスワードを検証する前に試行を失敗として数え、成功した場合に取り消します
+  // これにより、同時に送られた多数のリクエストもロックアウトの上限を超えて検証されることはありません
+  // ロックアウト中、または上限を超えた試行はパスワードを検証せずに429エラーを返します
+  const attempt = await reserveLoginAttempt(username, clientIP);
+  if (!attempt.allowed) {
+    logLogin(username, false, "ロックアウト中", clientIP);
+    loginAttemptsTotal.inc({ result: "locked" });
+    res.set(
+      "Retry-After",
+      String(Math.max(Math.ceil(attempt.retryAfterMs / 1000), 1)),
+    );
+    sendError(
+      res,
+      429,
+      "ACCOUNT_LOCKED",
+      "ログインに続けて失敗したため、一時的にログインできません。しばらくしてからお試しください。",
+    );
+    return;
+  }
 
   // ユーザーの検索
-  // 指定されたユーザー名を持つユーザーをデータベース（この場合は配列）から検索します
+  // 指定されたユーザー名を持つユーザーをユーザーリポジトリから検索します
   const user = findUserByUsername(username);
   // ユーザーが見つからない場合は401エラーを返します
   if (!user) {
     // ログイン失敗をログに記録します
-    logLogin(username, false, "ユーザーが見つかりません", clientIP as string);
+    await recordLogin(
+      username,
+      false,
+      "ユーザーが見つかりません",
+      clientIP,
+      attempt.locked,
+    );
     // セキュリティ上の理由から、具体的なエラー理由は返さず、一般的なメッセージを返します
-    res
-      .status(401)
-      .json({ message: "ユーザー名またはパスワードが正しくありません" });
+    sendError(
+      res,
+      401,
+      "INVALID_CREDENTIALS",
+      "ユーザー名またはパスワードが正しくありません",
+    );
     return;
   }
 
   // 開発用の簡易認証（パスワードが'password'の場合は認証成功）
-  // 注意: これは開発環境でのみ使用すべきで、本番環境では削除すべきです
-  if (password === "password") {
+  // DEV_PASSWORD_SHORTCUT=trueの場合のみ有効です（本番環境では有効にできません）
+  // 通常はbcryptによるパスワードの検証のみを行います
+  if (DEV_PASSWORD_SHORTCUT && password === "password") {
     // 簡易認証によるログイン成功をログに記録します
-    logLogin(username, true, "簡易認証", clientIP as string);
-
-    // JWTトークンの生成
-    // ユーザーID、ユーザー名、ロールを含むペイロードでトークンを作成します
-    const token = jwt.sign(
-      { id: user.id, username: user.username, role: user.role },
-      JWT_SECRET,
-      {
-        expiresIn: JWT_EXPIRES_IN, // トークンの有効期限（設定ファイルで定義）
-      },
+    await recordLogin(username, true, "簡易認証", clientIP, attempt.locked);
+    sendTokens(
+      res,
+      createTokenResponse(user, issueRefreshToken(user.id)),
+      wantsBodyTokens(req),
     );
-
-    // トークンを返す
-    // クライアントはこのトークンを使用して認証付きSSEエンドポイントにアクセスできます
-    res.status(200).json({ token });
     return;
   }
 
   // パスワードの検証
   // bcryptを使用してハッシュ化されたパスワードと入力されたパスワードを比較します
-  bcrypt.compare(
-    password,
-    user.password,
-    (err: Error | undefined, result: boolean): void => {
-      // パスワード検証中にエラーが発生した場合
-      if (err) {
-        // パスワード検証エラーをログに記録します
-        logLogin(
-          username,
-          false,
-          `パスワード検証エラー: ${err.message}`,
-          clientIP as string,
-        );
-        // 401エラーを返します
-        res
-          .status(401)
-          .json({ message: "ユーザー名またはパスワードが正しくありません" });
-        return;
-      }
-
-      // パスワードが一致しない場合
-      if (!result) {
-        // パスワード不一致をログに記録します
-        logLogin(username, false, "パスワード不一致", clientIP as string);
-        // 401エラーを返します
-        res
-          .status(401)
-          .json({ message: "ユーザー名またはパスワードが正しくありません" });
-        return;
-      }
-
-      // パスワードが一致した場合（ログイン成功）
-      // 通常認証によるログイン成功をログに記録します
-      logLogin(username, true, "通常認証", clientIP as string);
-
-      // JWTトークンの生成
-      // ユーザーID、ユーザー名、ロールを含むペイロードでトークンを作成します
-      const token = jwt.sign(
-        { id: user.id, username: user.username, role: user.role },
-        JWT_SECRET,
-        {
-          expiresIn: JWT_EXPIRES_IN, // トークンの有効期限（設定ファイルで定義）
-        },
-      );
-
-      // トークンを返す
-      // クライアントはこのトークンを使用して認証付きSSEエンドポイントにアクセスできます
-      res.status(200).json({ token });
-    },
+  let matched: boolean;
+  try {
+    matched = await verifyPassword(user, password);
+  } catch (error) {
+    // パスワード検証中にエラーが発生した場合（ハッシュ値が不正な場合など）
+    await recordLogin(
+      username,
+      false,
+      `パスワード検証エラー: ${error instanceof Error ? error.message : String(error)}`,
+      clientIP,
+      attempt.locked,
+    );
+    sendError(
+      res,
+      401,
+      "INVALID_CREDENTIALS",
+      "ユーザー名またはパスワードが正しくありません",
+    );
+    return;
+  }
+
+  // パスワードが一致しない場合
+  if (!matched) {
+    // パスワード不一致をログに記録します
+    await recordLogin(
+      username,
+      false,
+      "パスワード不一致",
+      clientIP,
+      attempt.locked,
+    );
+    // 401エラーを返します
+    sendError(
+      res,
+      401,
+      "INVALID_CREDENTIALS",
+      "ユーザー名またはパスワードが正しくありません",
+    );
+    return;
+  }
+
+  // パスワードが一致した場合（ログイン成功）
+  // 通常認証によるログイン成功をログに記録します
+  await recordLogin(username, true, "通常認証", clientIP, attempt.locked);
+
+  // アクセストークンとリフレッシュトークンを返す
+  // ブラウザはクッキーのアクセストークンで、その他のクライアントはincludeTokensで要求したボディのアクセストークンで
+  // 認証付きSSEエンドポイントにアクセスできます
+  sendTokens(
+    res,
+    createTokenResponse(user, issueRefreshToken(user.id)),
+    wantsBodyTokens(req),
   );
 };
 
-// ログアウトコントローラー（クライアント側でトークンを削除するため、シンプルなレスポンスのみ）
-// JWTはステートレスなので、サーバー側でのセッション管理は行いません
-// クライアントは単にトークンを破棄することでログアウトします
-export const logout = (_req: Request, res: Response): void => {
-  // 成功メッセージを返します
-  // 実際のログアウト処理はクライアント側で行われます（トークンの削除）
+// ユーザー登録コントローラー
+// POST /api/register
+// リクエスト: { "username": "...", "password": "..." }
+// 新しいユーザー（DEFAULT_ROLEの役割、既定はviewer）を作成し、ログインした状態にします
+// レスポンスは/api/loginと同じ形式で、ステータスコードは201です
+export const register = async (req: Request, res: Response): Promise<void> => {
+  // ユーザー名とパスワードの形式は入力値検証ミドルウェアで確認済みです
+  const { username, password } = req.body as {
+    username: string;
+    password: string;
+  };
+
+  // パスワードをハッシュ化してユーザーを作成します
+  // ユーザー名の重複はリポジトリが作成時に確認するため、同時に登録された場合も重複しません
+  const user = userRepository.create({
+    username,
+    password: await hashPassword(password),
+    role: DEFAULT_ROLE,
+  });
+  if (!user) {
+    sendError(
+      res,
+      409,
+      "USERNAME_TAKEN",
+      "このユーザー名はすでに使用されています",
+    );
+    return;
+  }
+
+  logInfo(`ユーザー登録 - ユーザー: ${user.username} - ID: ${user.id}`);
+  sendTokens(
+    res,
+    createTokenResponse(user, issueRefreshToken(user.id)),
+    wantsBodyTokens(req),
+    201,
+  );
+};
+
+// パスワード変更コントローラー
+// POST /api/password
+// リクエスト: { "currentPassword": "...", "newPassword": "..." }
+// 現在のパスワードを確認したうえでパスワードを変更します
+// パスワードが漏洩した場合に備え、このログイン以外のすべてのセッションを失効させます
+export const changePassword = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  // 認証ミドルウェアを通過しているため、ユーザー情報は必ず存在します
+  const user = req.user ? findUserById(req.user.id) : undefined;
+  if (!req.user || !user) {
+    sendError(res, 401, "UNAUTHORIZED", "認証が必要です");
+    return;
+  }
+
+  // 新しいパスワードの形式は入力値検証ミドルウェアで確認済みです
+  const { currentPassword, newPassword } = req.body as {
+    currentPassword: string;
+    newPassword: string;
+  };
+  if (!(await verifyPassword(user, currentPassword))) {
+    sendError(
+      res,
+      400,
+      "INVALID_CREDENTIALS",
+      "現在のパスワードが正しくありません",
+    );
+    return;
+  }
+
+  userRepository.update(user.id, { password: await hashPassword(newPassword) });
+  const closed = revokeUserSessions(
+    user.id,
+    "パスワードが変更されました。再度ログインしてください",
+    req.user.sid,
+  );
+  logInfo(
+    `パスワード変更 - ユーザー: ${user.username} - 閉じたSSE接続: ${closed}`,
+  );
+  res.status(200).json({ message: "パスワードを変更しました" });
+};
+
+// トークン更新コントローラー
+// POST /api/refresh
+// リクエスト: { "refreshToken": "..." }（省略時はrefresh_tokenクッキーを使用します）
+// リフレッシュトークンを検証し、新しいアクセストークンとリフレッシュトークンを発行します
+// 使用したリフレッシュトークンは無効になるため、クライアントは新しいリフレッシュトークンを保存する必要があります
+// クッキーで更新した場合は、新しいトークンもクッキーにのみ設定し、ボディには含めません
+// （クッキーがHttpOnlyでも、ボディにトークンを含めるとJavaScriptから読み取れてしまうため）
+export const refresh = (req: Request, res: Response): void => {
+  const bodyToken = req.body?.refreshToken;
+  const fromBody = typeof bodyToken === "string" && bodyToken.length > 0;
+  const refreshToken = fromBody ? bodyToken : readCookie(req, REFRESH_COOKIE);
+  if (!refreshToken) {
+    sendError(
+      res,
+      400,
+      "VALIDATION_ERROR",
+      "リフレッシュトークンを指定してください",
+    );
+    return;
+  }
+
+  const result = rotateRefreshToken(refreshToken);
+
+  // 使用済みのトークンが再利用された場合
+  // トークンが盗まれた可能性があるため、同じログインのすべてのトークンは無効化されています
+  // 発行済みのアクセストークンも失効させ、そのセッションのSSE接続を閉じます
+  if (result.status === "reused") {
+    logWarning(
+      `リフレッシュトークンの再利用を検知しました - ユーザーID: ${result.userId} - ファミリーID: ${result.familyId}`,
+    );
+    revokeSession(
+      result.familyId,
+      "セキュリティ上の理由によりセッションが終了しました。再度ログインしてください",
+    );
+  }
+  if (result.status !== "ok") {
+    // 無効なクッキーが残り続けないよう、認証クッキーを削除します
+    clearSessionCookies(res);
+    sendError(res, 401, "INVALID_TOKEN", "リフレッシュトークンが無効です");
+    return;
+  }
+
+  // トークンの発行後にユーザーが削除されている場合
+  const user = findUserById(result.userId);
+  if (!user) {
+    clearSessionCookies(res);
+    sendError(res, 401, "INVALID_TOKEN", "リフレッシュトークンが無効です");
+    return;
+  }
+
+  sendTokens(res, createTokenResponse(user, result), fromBody);
+};
+
+// ログイン中のユーザー情報を返すコントローラー
+// GET /api/me
+// アクセストークンはHttpOnlyのクッキーに保存されており、フロントエンドはトークンをデコードできないため、
+// このエンドポイントでユーザー情報とトークンの残りの有効期間（秒）を取得します
+export const getMe = (req: Request, res: Response): void => {
+  // 認証ミドルウェアを通過しているため、ユーザー情報は必ず存在します
+  const user = req.user;
+  if (!user) {
+    sendError(res, 401, "UNAUTHORIZED", "認証が必要です");
+    return;
+  }
+  res.status(200).json({
+    user: { id: user.id, username: user.username, role: user.role },
+    expiresIn:
+      user.exp !== undefined
+        ? Math.max(user.exp - Math.floor(Date.now() / 1000), 0)
+        : null,
+  });
+};
+
+// SSE接続チケット発行コントローラー
+// POST /api/sse-ticket
+// Bearerトークンで認証されたユーザーに、SSE接続に使用する使い捨てのチケットを発行します
+// クライアントはJWTの代わりにこのチケットを /secure-events?ticket=xxxxx として送信します
+// これにより、アクセスログやブラウザの履歴にJWTが残らなくなります
+export const issueSseTicket = (req: Request, res: Response): void => {
+  // 認証ミドルウェアを通過しているため、ユーザー情報は必ず存在します
+  const user = req.user;
+  if (!user) {
+    sendError(res, 401, "UNAUTHORIZED", "認証が必要です");
+    return;
+  }
+  const { ticket, expiresAt } = issueTicket(user);
+  // チケットと有効期間（秒）を返します
+  res.status(200).json({
+    ticket,
+    expiresIn: Math.round((expiresAt - Date.now()) / 1000),
+  });
+};
+
+// ログアウトコントローラー
+// POST /api/logout
+// 現在のセッション（このログインで発行されたアクセストークンとリフレッシュトークン）を失効させ、
+// そのセッションで接続中のSSEストリームに'session-ended'イベントを送信して閉じます
+// 同じユーザーが別の端末でログインしているセッションには影響しません
+// アクセストークンの期限が切れている場合も、リフレッシュトークンからセッションを特定して失効させます
+// ブラウザの認証クッキーは常に削除します
+export const logout = (req: Request, res: Response): void => {
+  const bodyToken = req.body?.refreshToken;
+  const refreshToken =
+    typeof bodyToken === "string" && bodyToken.length > 0
+      ? bodyToken
+      : readCookie(req, REFRESH_COOKIE);
+  const sessionId =
+    req.user?.sid ??
+    (refreshToken ? findRefreshTokenFamily(refreshToken) : null);
+
+  // セッションを特定できない場合は失効させられないため、クッキーの削除のみとなります
+  const closed = sessionId ? revokeSession(sessionId, "ログアウトしました") : 0;
+  logInfo(
+    `ログアウト - ユーザー: ${req.user?.username ?? "不明"} - 閉じたSSE接続: ${closed}`,
+  );
+  clearSessionCookies(res);
   res.status(200).json({ message: "ログアウトしました" });
 };
+
+// すべての端末からのログアウトコントローラー
+// POST /api/logout-all
+// ユーザーのすべてのセッションを失効させ、すべてのSSEストリームを閉じます
+// 端末の紛失など、他の端末のログインを終了させたい場合に使用します
+export const logoutAll = (req: Request, res: Response): void => {
+  // 認証ミドルウェアを通過しているため、ユーザー情報は必ず存在します
+  const user = req.user;
+  if (!user) {
+    sendError(res, 401, "UNAUTHORIZED", "認証が必要です");
+    return;
+  }
+
+  const closed = revokeUserSessions(
+    user.id,
+    "すべての端末からログアウトしました",
+  );
+  logInfo(
+    `すべての端末からログアウト - ユーザー: ${user.username} - 閉じたSSE接続: ${closed}`,
+  );
+  clearSessionCookies(res);
+  res.status(200).json({ message: "すべての端末からログアウトしました" });
+};
@@ -1,16 +1,44 @@
 // SSE（Server-Sent Events）コントローラーファイル
 // SSEはサーバーからクライアントへの一方向通信を実現するHTTP技術です
 // 通常のHTTPと異なり、レスポンスを閉じずに継続的にデータを送信します
-import { Request, Response } from "express";
-// 同時接続可能なクライアント数の上限を設定します
+import { Request, Response, RequestHandler } from "express";
+// 同時接続可能なクライアント数の上限と、接続の既定値を設定ファイルからインポートします
 // サーバーリソースの過負荷を防ぐために重要です
-import { MAX_CLIENTS } from "../config/index";
-// SSE接続中のクライアント情報を管理するための関数と配列をインポートします
-// clientsは現在接続中のすべてのクライアントを保持する配列です
-import { clients, addClient, removeClient } from "../models/client";
+import {
+  MAX_CLIENTS,
+  MAX_CLIENTS_PER_USER,
+  MAX_CLIENTS_PER_IP,
+  CONNECTION_LIMIT_POLICY,
+  CONNECTION_LIMIT_RETRY_AFTER_SEC,
+  SSE_RETRY_MS,
+  SSE_MAX_LIFETIME_MS,
+  AUTH_EXPIRY_WARNING_MS,
+} from "../config/index";
+// SSE接続中のクライアント情報を管理するための関数をインポートします
+// クライアントはUUIDをキーとするレジストリで管理されます
+// parseChannelsは?channels=クエリパラメータから購読チャンネルを取得します
+import {
+  addClient,
+  removeClient,
+  findClient,
+  getClientCount,
+  getUserClients,
+  getIpClients,
+  parseChannels,
+} from "../models/client";
 // イベント送信関数をインポートします
 // sendEventは単一のイベントを送信し、sendMissedEventsは再接続時に失われたイベントを送信します
-import { sendEvent, sendMissedEvents } from "../models/event";
+// evictClientは接続数の上限に達したユーザーの最も古い接続を切断するために使用します
+import { sendEvent, sendMissedEvents, evictClient } from "../models/event";
+// ストリーム用の認証ミドルウェアをインポートします
+// 認証が必要なエンドポイントでは、接続処理の前にSSE接続チケットまたはトークンでユーザー認証を行います
+import { streamAuthMiddleware } from "../middleware/auth";
+// 接続前にクエリパラメータを検証するミドルウェアをインポートします
+import { validate } from "../middleware/validate";
+// エラーレスポンスを送信する関数をインポートします
+import { sendError } from "../utils/errors";
+// クライアントのIPアドレスを取得する関数をインポートします
+import { getClientIP } from "../utils/clientIp";
 // ログ出力用の関数をインポートします
 // SSE接続のライフサイクル（接続、切断）を記録するために使用します
 import {
@@ -18,220 +46,354 @@ import {
   logSSEDisconnection,
   logInfo,
 } from "../utils/logger";
+// 役割が必要なチャンネルの購読権限を確認する関数をインポートします
+import { canAccessChannel } from "../models/permission";
+// 拒否された接続の数を記録するメトリクスをインポートします
+import { sseConnectionsRejectedTotal } from "../utils/metrics";
 
 // Node.jsのsetTimeoutとclearTimeoutを明示的に型定義
 // TypeScriptの型チェックのために必要です
 declare const setTimeout: (callback: () => void, ms: number) => number;
 declare const clearTimeout: (timeoutId: number) => void;
 
-// SSE接続コントローラー（認証不要）
-// このコントローラーは'/events'エンドポイントで使用され、認証なしでSSE接続を確立します
-export const connectSSE = (req: Request, res: Response): void => {
-  // クライアントのIPアドレスを取得します（ロギングとデバッグ用）
-  // プロキシ経由の場合はx-forwarded-forヘッダーを使用します
-  const clientIP =
-    req.headers["x-forwarded-for"] || req.socket.remoteAddress || "unknown";
-  // 接続要求をログに記録します
-  logInfo(`SSE接続要求 - エンドポイント: /events - クライアント: ${clientIP}`);
-
-  // 接続数の制限チェック
-  // サーバーリソースを保護するため、接続数が上限に達した場合は新しい接続を拒否します
-  if (clients.length >= MAX_CLIENTS) {
+// SSE接続ハンドラーの設定の型定義
+// - endpoint: エンドポイントのパス（ログ出力に使用）
+// - requireAuth: 認証が必要かどうか（trueの場合はstreamAuthMiddlewareで認証します）
+// - retryMs: クライアントに指示する再接続間隔（ミリ秒）
+// - maxLifetimeMs: 接続の最大維持時間（ミリ秒）。この時間を過ぎた接続はサーバーから閉じます
+// - welcome: 接続確立時に送信するシステムイベントのデータを作成する関数（falseの場合は送信しません）
+// - allowedChannels: 購読を許可するチャンネル名（省略時はすべてのチャンネルを許可します）
+// - defaultChannels: ?channels=が指定されなかった場合に購読するチャンネル名
+export interface SSEHandlerOptions {
+  endpoint: string;
+  requireAuth?: boolean;
+  retryMs?: number;
+  maxLifetimeMs?: number;
+  welcome?: ((user: Request["user"]) => Record<string, unknown>) | false;
+  allowedChannels?: string[];
+  defaultChannels?: string[];
+}
+
+// 接続数の上限に達したリクエストを拒否する関数
+// 429 Too Many Requestsステータスと、再試行までの待ち時間を示すRetry-Afterヘッダーを返します
+const rejectTooManyConnections = (res: Response, message: string): void => {
+  res.set("Retry-After", String(CONNECTION_LIMIT_RETRY_AFTER_SEC));
+  sendError(res, 429, "TOO_MANY_CONNECTIONS", message);
+};
+
+// SSE接続のクエリパラメータの検証
+// - channels: 購読するチャンネル名（カンマ区切り）
+// - ticket: SSE接続チケット
+// - lastEventId: 最後に受信したイベントID（Last-Event-IDヘッダーを送れない再接続用）
+const validateStreamQuery = validate({
+  query: {
+    channels: {
+      type: "string",
+      label: "チャンネル名",
+      check: (value) =>
+        parseChannels(value) ? null : "チャンネル名が不正です",
+    },
+    ticket: { type: "string", label: "チケット", maxLength: 256 },
+    lastEventId: { type: "integer", label: "最後に受信したイベントID", min: 0 },
+  },
+});
+
+// 既定の接続確立メッセージ
+// 認証済みの場合は、ユーザー名を含むメッセージを作成します
+const defaultWelcome = (user: Request["user"]): Record<string, unknown> => ({
+  type: "info",
+  message: user
+    ? `${user.username}として接続が確立されました`
+    : "接続が確立されました",
+});
+
+// SSE接続ハンドラーを作成する関数
+// 認証の要否、再接続間隔、最大維持時間、接続確立メッセージ、購読できるチャンネルを設定して
+// SSEエンドポイントのハンドラーを作成します
+// routes/events.tsでは、この関数に設定を渡すだけで新しいストリームエンドポイントを定義できます
+// 戻り値は、認証が必要な場合はstreamAuthMiddlewareを含むハンドラーの配列です
+export const createSSEHandler = (
+  options: SSEHandlerOptions,
+): RequestHandler[] => {
+  const {
+    endpoint,
+    requireAuth = false,
+    retryMs = SSE_RETRY_MS,
+    maxLifetimeMs = SSE_MAX_LIFETIME_MS,
+    welcome = defaultWelcome,
+    allowedChannels,
+    defaultChannels,
+  } = options;
+  // ログに表示する接続の種類
+  const label = requireAuth ? "認証済みSSE" : "SSE";
+
+  const connect = (req: Request, res: Response): void => {
+    // クライアントのIPアドレスを取得します（IPアドレスごとの接続数の上限とロギング用）
+    // 信頼するプロキシ（TRUST_PROXY）を経由した場合のみX-Forwarded-Forヘッダーを使用します
+    const clientIP = getClientIP(req);
+    // 認証ミドルウェアによって追加されたユーザー情報を取得します
+    const user = req.user;
+    const userText = user ? ` - ユーザー: ${user.username}` : "";
+
+    // 接続要求をログに記録します
     logInfo(
-      `SSE接続拒否 - 最大接続数(${MAX_CLIENTS})に到達 - クライアント: ${clientIP}`,
+      `${label}接続要求 - エンドポイント: ${endpoint}${userText} - クライアント: ${clientIP}`,
     );
-    // 503 Service Unavailableステータスを返します
-    res.status(503).send("サーバーが混雑しています。後でお試しください。");
-    return;
-  }
-
-  // SSEのヘッダー設定
-  // Content-Type: text/event-stream - SSEプロトコルを示すMIMEタイプです
-  // Cache-Control: no-cache - キャッシュを無効にし、常に最新のイベントを受信できるようにします
-  // Connection: keep-alive - 接続を維持し、複数のイベントを送信できるようにします
-  res.writeHead(200, {
-    "Content-Type": "text/event-stream",
-    "Cache-Control": "no-cache",
-    Connection: "keep-alive",
-  });
-
-  // 再接続間隔の設定（ミリ秒）
-  // クライアントが接続を失った場合、3秒後に自動的に再接続を試みるよう指示します
-  // これはSSEプロトコルの一部で、'retry:'フィールドとして送信されます
-  res.write("retry: 3000\n\n");
-
-  // クライアントにID付与
-  // 現在のタイムスタンプをIDとして使用します（ミリ秒単位のUNIXタイムスタンプ）
-  // このIDは接続管理とログ記録に使用されます
-  const clientId = Date.now();
-  // 接続確立をログに記録します
-  logSSEConnection(clientId, clientIP as string);
-
-  // Last-Event-IDヘッダーの確認
-  // このヘッダーは再接続時にクライアントが送信し、最後に受信したイベントIDを示します
-  // これにより、接続が切れた間に失われたイベントを再送できます
-  const lastEventId = req.headers["last-event-id"];
-  if (lastEventId) {
+
+    // 認証が必要なエンドポイントでユーザー情報がない場合は接続を拒否します
+    // 通常はstreamAuthMiddlewareで拒否されるため、ここに到達することはありません
+    if (requireAuth && !user) {
+      sendError(res, 401, "UNAUTHORIZED", "認証が必要です");
+      return;
+    }
+
+    // 接続数の制限チェック
+    // サーバーリソースを保護するため、接続数が上限に達した場合は新しい接続を拒否します
+    if (getClientCount() >= MAX_CLIENTS) {
+      logInfo(
+        `${label}接続拒否 - 最大接続数(${MAX_CLIENTS})に到達${userText} - クライアント: ${clientIP}`,
+      );
+      sseConnectionsRejectedTotal.inc({ endpoint, reason: "max_clients" });
+      // 503 Service Unavailableステータスを返します
+      sendError(
+        res,
+        503,
+        "SERVICE_UNAVAILABLE",
+        "サーバーが混雑しています。後でお試しください。",
+      );
+      return;
+    }
+
+    // 購読チャンネルの取得
+    // ?channels=alerts,orders 形式で指定されたチャンネルのイベントのみを受信します
+    // 指定がない場合はエンドポイントの既定のチャンネルを購読します
+    const channels =
+      req.query.channels === undefined && defaultChannels
+        ? defaultChannels
+        : parseChannels(req.query.channels);
+    if (!channels) {
+      // 400 Bad Requestステータスを返します
+      sendError(res, 400, "VALIDATION_ERROR", "チャンネル名が不正です", [
+        { field: "query.channels", message: "チャンネル名が不正です" },
+      ]);
+      return;
+    }
+    // このエンドポイントで購読できないチャンネルが含まれている場合は拒否します
+    if (
+      allowedChannels &&
+      !channels.every((channel) => allowedChannels.includes(channel))
+    ) {
+      sendError(
+        res,
+        403,
+        "FORBIDDEN",
+        "購読できないチャンネルが含まれています",
+      );
+      return;
+    }
+    // 役割が必要なチャンネル（CHANNEL_ROLES）は、その役割以上のユーザーのみが購読できます
+    const deniedChannel = channels.find(
+      (channel) => !canAccessChannel(user?.role, channel),
+    );
+    if (deniedChannel !== undefined) {
+      sendError(
+        res,
+        403,
+        "FORBIDDEN",
+        `チャンネル${deniedChannel}を購読する権限がありません`,
+      );
+      return;
+    }
+
+    // IPアドレスごとの接続数の制限チェック
+    // 再接続を繰り返す1つのブラウザや端末が接続枠を使い切るのを防ぎます
+    if (
+      MAX_CLIENTS_PER_IP > 0 &&
+      getIpClients(clientIP).length >= MAX_CLIENTS_PER_IP
+    ) {
+      logInfo(
+        `${label}接続拒否 - IPアドレスごとの最大接続数(${MAX_CLIENTS_PER_IP})に到達${userText} - クライアント: ${clientIP}`,
+      );
+      sseConnectionsRejectedTotal.inc({ endpoint, reason: "ip_limit" });
+      rejectTooManyConnections(
+        res,
+        "このIPアドレスからの接続数が上限に達しています。後でお試しください。",
+      );
+      return;
+    }
+
+    // ユーザーごとの接続数の制限チェック
+    // "evict-oldest"の場合は、上限を下回るまでそのユーザーの古い接続から切断します
+    if (user && MAX_CLIENTS_PER_USER > 0) {
+      const userClients = getUserClients(user.id);
+      if (userClients.length >= MAX_CLIENTS_PER_USER) {
+        if (CONNECTION_LIMIT_POLICY === "evict-oldest") {
+          userClients
+            .sort((a, b) => a.connectedAt - b.connectedAt)
+            .slice(0, userClients.length - MAX_CLIENTS_PER_USER + 1)
+            .forEach((oldest) =>
+              evictClient(
+                oldest,
+                "新しい接続が確立されたため、この接続を終了しました",
+              ),
+            );
+        } else {
+          logInfo(
+            `${label}接続拒否 - ユーザーごとの最大接続数(${MAX_CLIENTS_PER_USER})に到達${userText} - クライアント: ${clientIP}`,
+          );
+          sseConnectionsRejectedTotal.inc({ endpoint, reason: "user_limit" });
+          rejectTooManyConnections(
+            res,
+            "このユーザーの接続数が上限に達しています。他のタブを閉じてからお試しください。",
+          );
+          return;
+        }
+      }
+    }
+
+    // SSEのヘッダー設定
+    // Content-Type: text/event-stream - SSEプロトコルを示すMIMEタイプです
+    // Cache-Control: no-cache - キャッシュを無効にし、常に最新のイベントを受信できるようにします
+    // Connection: keep-alive - 接続を維持し、複数のイベントを送信できるようにします
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+
+    // 再接続間隔の設定（ミリ秒）
+    // クライアントが接続を失った場合、指定した時間の後に自動的に再接続を試みるよう指示します
+    // これはSSEプロトコルの一部で、'retry:'フィールドとして送信されます
+    res.write(`retry: ${retryMs}\n\n`);
+
+    // クライアントレジストリに追加
+    // このクライアントをレジストリに追加し、後でイベントを送信できるようにします
+    // クライアントIDは衝突しないUUIDが採番され、接続時刻や接続元の情報も記録されます
+    // 認証済みの場合はユーザー情報も保存し、特定のユーザーにのみイベントを送信できるようにします
+    const client = addClient({
+      res,
+      user,
+      channels: new Set(channels),
+      endpoint,
+      ip: clientIP,
+      userAgent: req.headers["user-agent"] || "unknown",
+    });
+    // 接続確立をログに記録します
+    logSSEConnection(client.id, client.ip, user?.username);
     logInfo(
-      `Last-Event-ID検出 - クライアントID: ${clientId} - ID: ${lastEventId}`,
+      `${label} - 購読チャンネル - クライアントID: ${client.id} - チャンネル: ${channels.join(",")}`,
     );
-    // 失われたイベントを送信します
-    sendMissedEvents(res, parseInt(lastEventId as string));
-  }
-
-  // クライアント配列に追加
-  // このクライアントをグローバルなクライアントリストに追加し、後でイベントを送信できるようにします
-  addClient({
-    id: clientId,
-    res,
-  });
-
-  // 接続確立メッセージ
-  // クライアントに接続が確立されたことを通知するシステムイベントを送信します
-  // これにより、クライアントは接続状態を確認できます
-  sendEvent(res, "system", { type: "info", message: "接続が確立されました" });
-
-  // タイムアウト設定（30分）
-  // 長時間アイドル状態の接続を自動的に閉じるためのタイマーを設定します
-  // これにより、リソースリークを防ぎます
-  const timeout = setTimeout(
-    () => {
+
+    // Last-Event-IDヘッダーの確認
+    // このヘッダーは再接続時にクライアントが送信し、最後に受信したイベントIDを示します
+    // これにより、接続が切れた間に失われたイベントを再送できます
+    // 新しいチケットで接続し直す場合、ブラウザは新しいEventSourceにこのヘッダーを付けないため、
+    // クエリパラメータのlastEventIdでも受け付けます（両方ある場合はヘッダーを優先します）
+    const lastEventId = req.headers["last-event-id"] ?? req.query.lastEventId;
+    if (lastEventId) {
+      logInfo(
+        `${label} - Last-Event-ID検出 - クライアントID: ${client.id} - ID: ${lastEventId}`,
+      );
+      // 購読チャンネルで失われたイベントを元のIDのまま送信します
+      // 認証済みの場合は、ユーザー宛てのイベントも再送します
+      const replayedCount = sendMissedEvents(
+        client,
+        parseInt(lastEventId as string, 10),
+      );
+      logInfo(
+        `${label} - イベント再送 - クライアントID: ${client.id} - 再送件数: ${replayedCount}`,
+      );
+    }
+
+    // 接続確立メッセージ
+    // クライアントに接続が確立されたことを通知するシステムイベントを送信します
+    // これにより、クライアントは接続状態を確認できます
+    if (welcome) {
+      sendEvent(client, "system", welcome(user));
+    }
+
+    // 最大維持時間の設定
+    // 長時間維持されている接続を自動的に閉じるためのタイマーを設定します
+    // これにより、リソースリークを防ぎます
+    const timeout = setTimeout(() => {
       // タイムアウト時にクライアントがまだ接続中かチェックします
-      const index = clients.findIndex((client) => client.id === clientId);
-      if (index !== -1) {
+      if (findClient(client.id)) {
         // タイムアウトをログに記録します
         logInfo(
-          `SSE接続タイムアウト - クライアントID: ${clientId} - 接続時間: 30分`,
+          `${label}接続タイムアウト - クライアントID: ${client.id}${userText} - 接続時間: ${Math.round(maxLifetimeMs / 1000)}秒`,
         );
-        // クライアントをリストから削除します
-        removeClient(clientId);
+        // クライアントをレジストリから削除します
+        removeClient(client.id);
         // 接続を閉じます
         res.end();
       }
-    },
-    // 30分 = 30 * 60 * 1000ミリ秒
-    30 * 60 * 1000,
-  );
-
-  // クライアントが切断した時の処理
-  // クライアントが接続を閉じた場合（ブラウザを閉じるなど）に実行されます
-  req.on("close", () => {
-    // タイムアウトタイマーをクリアします
-    clearTimeout(timeout);
-    // 接続時間を計算します（秒単位）
-    const connectionDuration = Math.round((Date.now() - clientId) / 1000);
-    // 切断をログに記録します
-    logSSEDisconnection(clientId, connectionDuration);
-
-    // クライアント配列から削除
-    // これにより、切断されたクライアントにイベントが送信されなくなります
-    removeClient(clientId);
-  });
-};
+    }, maxLifetimeMs);
 
-// 認証付きSSE接続コントローラー
-// このコントローラーは'/secure-events'エンドポイントで使用され、認証済みユーザーのみがアクセスできます
-// 基本的な処理は通常のSSE接続と同じですが、ユーザー情報が追加されています
-export const connectSecureSSE = (req: Request, res: Response): void => {
-  // クライアントのIPアドレスを取得します
-  const clientIP =
-    req.headers["x-forwarded-for"] || req.socket.remoteAddress || "unknown";
-  // 認証ミドルウェアによって追加されたユーザー情報を取得します
-  const user = req.user;
-
-  // 認証済み接続要求をログに記録します
-  logInfo(
-    `認証済みSSE接続要求 - エンドポイント: /secure-events - ユーザー: ${user?.username} - クライアント: ${clientIP}`,
-  );
-
-  // 接続数の制限チェック
-  // 通常のSSE接続と同様に、接続数が上限に達した場合は新しい接続を拒否します
-  if (clients.length >= MAX_CLIENTS) {
-    logInfo(
-      `認証済みSSE接続拒否 - 最大接続数(${MAX_CLIENTS})に到達 - ユーザー: ${user?.username} - クライアント: ${clientIP}`,
-    );
-    res.status(503).send("サーバーが混雑しています。後でお試しください。");
-    return;
-  }
-
-  // SSEのヘッダー設定
-  // 通常のSSE接続と同じヘッダーを設定します
-  res.writeHead(200, {
-    "Content-Type": "text/event-stream",
-    "Cache-Control": "no-cache",
-    Connection: "keep-alive",
-  });
-
-  // 再接続間隔の設定（ミリ秒）
-  // 通常のSSE接続と同じ再接続間隔を設定します
-  res.write("retry: 3000\n\n");
-
-  // クライアントにID付与
-  // 通常のSSE接続と同様に、現在のタイムスタンプをIDとして使用します
-  const clientId = Date.now();
-  // 接続確立をログに記録します（ユーザー情報を含む）
-  logSSEConnection(clientId, clientIP as string, user?.username);
-
-  // Last-Event-IDヘッダーの確認
-  // 通常のSSE接続と同様に、再接続時に失われたイベントを再送するために使用します
-  const lastEventId = req.headers["last-event-id"];
-  if (lastEventId) {
-    logInfo(
-      `認証済みSSE - Last-Event-ID検出 - クライアントID: ${clientId} - ID: ${lastEventId}`,
-    );
-    sendMissedEvents(res, parseInt(lastEventId as string));
-  }
-
-  // クライアント配列に追加
-  // 通常のSSE接続と異なり、ユーザー情報も保存します
-  // これにより、特定のユーザーにのみイベントを送信するなどの機能が実装できます
-  addClient({
-    id: clientId,
-    res,
-    user, // ユーザー情報を保存
-  });
-
-  // 接続確立メッセージ
-  // ユーザー情報がある場合は、ユーザー名を含むメッセージを送信します
-  if (user) {
-    sendEvent(res, "system", {
-      type: "info",
-      message: `${user.username}として接続が確立されました`,
-    });
-  } else {
-    // ユーザー情報がない場合（通常はありえない）は、一般的なメッセージを送信します
-    sendEvent(res, "system", {
-      type: "info",
-      message: "接続が確立されました",
+    // トークンの有効期限の設定
+    // 認証はストリームを開いた時にしか行われないため、有効期限を過ぎたトークンで
+    // 接続が維持され続けないよう、有効期限に合わせて接続を閉じるタイマーを設定します
+    // 有効期限が最大維持時間より後の場合は、先に最大維持時間で閉じられるため設定しません
+    const authTimers: number[] = [];
+    const tokenExpiresAt = user?.exp !== undefined ? user.exp * 1000 : null;
+    if (
+      tokenExpiresAt !== null &&
+      tokenExpiresAt - Date.now() < maxLifetimeMs
+    ) {
+      // 有効期限の少し前に'auth-expired'イベントを送信します
+      // クライアントはこのイベントを受け取るとトークンを更新して再接続します
+      authTimers.push(
+        setTimeout(
+          () => {
+            if (findClient(client.id)) {
+              sendEvent(client, "auth-expired", {
+                type: "warning",
+                message:
+                  "認証の有効期限が近づいています。トークンを更新して再接続してください",
+                expiresAt: new Date(tokenExpiresAt).toISOString(),
+              });
+            }
+          },
+          Math.max(tokenExpiresAt - AUTH_EXPIRY_WARNING_MS - Date.now(), 0),
+        ),
+      );
+      // 有効期限になったら接続を閉じます
+      authTimers.push(
+        setTimeout(
+          () => {
+            if (findClient(client.id)) {
+              logInfo(
+                `${label}トークン期限切れ - クライアントID: ${client.id}${userText}`,
+              );
+              removeClient(client.id);
+              res.end();
+            }
+          },
+          Math.max(tokenExpiresAt - Date.now(), 0),
+        ),
+      );
+    }
+
+    // クライアントが切断した時の処理
+    // クライアントが接続を閉じた場合（ブラウザを閉じるなど）に実行されます
+    req.on("close", () => {
+      // タイムアウトタイマーとトークンの有効期限のタイマーをクリアします
+      clearTimeout(timeout);
+      authTimers.forEach(clearTimeout);
+      // 接続時間を計算します（秒単位）
+      const connectionDuration = Math.round(
+        (Date.now() - client.connectedAt) / 1000,
+      );
+      // 切断をログに記録します
+      logSSEDisconnection(client.id, connectionDuration, user?.username);
+
+      // クライアントレジストリから削除
+      // これにより、切断されたクライアントにイベントが送信されなくなります
+      removeClient(client.id);
     });
-  }
-
-  // タイムアウト設定（30分）
-  // 通常のSSE接続と同様に、長時間アイドル状態の接続を自動的に閉じます
-  const timeout = setTimeout(
-    () => {
-      const index = clients.findIndex((client) => client.id === clientId);
-      if (index !== -1) {
-        // タイムアウトをログに記録します（ユーザー情報を含む）
-        logInfo(
-          `認証済みSSE接続タイムアウト - クライアントID: ${clientId} - ユーザー: ${user?.username} - 接続時間: 30分`,
-        );
-        removeClient(clientId);
-        res.end();
-      }
-    },
-    30 * 60 * 1000,
-  );
-
-  // クライアントが切断した時の処理
-  // 通常のSSE接続と同様に、クライアントが接続を閉じた場合に実行されます
-  req.on("close", () => {
-    clearTimeout(timeout);
-    const connectionDuration = Math.round((Date.now() - clientId) / 1000);
-    // 切断をログに記録します（ユーザー情報を含む）
-    logSSEDisconnection(clientId, connectionDuration, user?.username);
-
-    // クライアント配列から削除
-    removeClient(clientId);
-  });
+  };
+
+  // クエリパラメータを検証してから、認証が必要な場合は接続処理の前に認証ミドルウェアを実行します
+  return requireAuth
+    ? [validateStreamQuery, streamAuthMiddleware, connect]
+    : [validateStreamQuery, connect];
 };
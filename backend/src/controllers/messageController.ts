@@ -2,22 +2,37 @@
 // このファイルは接続中のすべてのSSEクライアントにメッセージを送信する機能を提供します
 // ChatGPTのような段階的なメッセージ表示を実現するためのストリーミング機能も含まれています
 import { Request, Response } from "express";
-// 接続中のクライアントリストをインポートします
-// このリストを使用して、すべてのクライアントにメッセージを送信します
-import { clients } from "../models/client";
-// イベント送信関数をインポートします
-// この関数を使用して、SSEプロトコルに準拠したフォーマットでメッセージを送信します
-import { sendEvent } from "../models/event";
+// ブロードキャスト関数をインポートします
+// この関数を使用して、1つのイベントIDですべてのクライアントにメッセージを送信します
+// sendToUserは特定のユーザーのすべての接続にのみイベントを送信します
+// broadcastTransientはストリーミングの途中経過を、再送用に保存せずに送信するために使用します
+// getEligibleSubscribersはストリーミング開始前に受信できるクライアント数を確認するために使用します
+import {
+  broadcast,
+  broadcastTransient,
+  sendToUser,
+  getEligibleSubscribers,
+} from "../models/event";
+// イベントに指定する役割が送信者の役割以下かどうかの確認に使用する関数をインポートします
+import { hasRole } from "../models/permission";
+// 送信者の役割（APIキーの場合はpublisher）を取得する関数をインポートします
+import { getRequestRole } from "../middleware/auth";
+// 宛先ユーザーの存在確認に使用する関数をインポートします
+import { findUserById } from "../models/user";
 // ログ出力用の関数をインポートします
 // メッセージ送信のログを記録するために使用します
-import { logMessageSent } from "../utils/logger";
+// ストリーミング中のチャンクの送信失敗はlogErrorで記録します
+import { logMessageSent, logError } from "../utils/logger";
+// エラーレスポンスを送信する関数をインポートします
+import { sendError } from "../utils/errors";
+// クライアントのIPアドレスを取得する関数をインポートします
+import { getClientIP } from "../utils/clientIp";
 // faker.jsをインポートします
 // ランダムなメッセージを生成するために使用します
 import { faker } from "@faker-js/faker/locale/ja";
-
-// console警告を無視
-// TypeScriptのESLint設定に関連するコメントです
-/* eslint-disable no-console */
+// チャンネルが指定されない場合に使用するデフォルトチャンネル名をインポートします
+// ストリーミングでチャンクを送信する間隔もインポートします
+import { DEFAULT_CHANNEL, STREAM_CHUNK_DELAY_MS, Role } from "../config/index";
 
 /**
  * クライアントメッセージに基づいて応答を生成する関数
@@ -117,13 +132,116 @@ function generateResponseFromClientMessage(clientMessage: string): string {
 declare const setTimeout: (callback: () => void, ms: number) => NodeJS.Timeout;
 declare const clearTimeout: (timeoutId: NodeJS.Timeout) => void;
 
+// 送信中のストリーミングの型定義
+// - cancel: 残りのチャンクの送信を中止し、クライアントに中止を通知します
+//   中止の通知を送信し終えた時点でストリーミングが終了したものとして扱います
+interface ActiveStream {
+  cancel: () => void;
+}
+
+// 送信中のストリーミングの一覧
+// グレースフルシャットダウン時に、送信中のストリーミングの完了を待つために使用します
+const activeStreams = new Set<ActiveStream>();
+// すべてのストリーミングが完了したときに呼び出される関数
+let onStreamsDrained: (() => void) | null = null;
+
+/**
+ * ストリーミングの終了を記録する関数
+ * すべてのストリーミングが終了した場合は、完了を待っている処理に通知します
+ *
+ * @param stream 終了したストリーミング
+ */
+function finishStream(stream: ActiveStream): void {
+  activeStreams.delete(stream);
+  if (activeStreams.size === 0 && onStreamsDrained) {
+    onStreamsDrained();
+  }
+}
+
+/**
+ * 送信中のストリーミングの完了を待つ関数
+ * グレースフルシャットダウン時に呼び出されます
+ * 制限時間内に完了しなかったストリーミングは中止され、中止の通知を送信し終えるまで待ちます
+ *
+ * @param timeoutMs 完了を待つ最大時間（ミリ秒）
+ * @returns すべてのストリーミングが完了または中止されたときに解決されるPromise
+ */
+export function drainStreams(timeoutMs: number): Promise<void> {
+  return new Promise((resolve) => {
+    if (activeStreams.size === 0) {
+      resolve();
+      return;
+    }
+    // 制限時間を過ぎたら残りのストリーミングを中止します
+    const timer = setTimeout(() => {
+      [...activeStreams].forEach((stream) => stream.cancel());
+    }, timeoutMs);
+    onStreamsDrained = () => {
+      clearTimeout(timer);
+      onStreamsDrained = null;
+      resolve();
+    };
+  });
+}
+
+/**
+ * リクエストボディから送信先チャンネルを取得する関数
+ * チャンネルが指定されていない場合はデフォルトチャンネルを返します
+ * チャンネル名の形式は入力値検証ミドルウェアで確認済みです
+ *
+ * @param req リクエスト（bodyのchannelプロパティを使用します）
+ * @returns チャンネル名
+ */
+function resolveChannel(req: Request): string {
+  return req.body.channel || DEFAULT_CHANNEL;
+}
+
+/**
+ * リクエストボディからイベントを受信するために必要な役割を取得する関数
+ * 役割の値は入力値検証ミドルウェアで確認済みです
+ * 送信者は自分の役割以下の役割のみ指定できます（APIキーの場合はpublisher以下）
+ *
+ * @param req リクエスト（bodyのrequiredRoleプロパティと送信者の役割を使用します）
+ * @returns 役割（指定されていない場合はundefined）。送信者の役割より上位の役割の場合はnull
+ */
+function resolveRequiredRole(req: Request): Role | undefined | null {
+  const value: Role | undefined = req.body.requiredRole || undefined;
+  if (value !== undefined && !hasRole(getRequestRole(req), value)) {
+    return null;
+  }
+  return value;
+}
+
+/**
+ * 送信者の役割より上位の役割が指定された場合のエラーレスポンスを送信する関数
+ *
+ * @param res レスポンス
+ */
+function rejectRequiredRole(res: Response): void {
+  sendError(res, 403, "FORBIDDEN", "自分の役割より上位の役割は指定できません");
+}
+
 // 全クライアントにメッセージを送信するコントローラー
 // このコントローラーは'/send-message'エンドポイントで使用され、
 // 接続中のすべてのSSEクライアントにメッセージを一度に送信します
-export const sendMessage = (req: Request, res: Response): void => {
+export const sendMessage = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  // リクエストボディから送信先チャンネルを取得します
+  // チャンネルが指定されていない場合は、デフォルトチャンネルに送信します
+  const channel = resolveChannel(req);
+  // リクエストボディからイベントを受信するために必要な役割を取得します
+  // 指定した場合は、その役割以上のユーザーの接続にのみメッセージが届きます
+  const requiredRole = resolveRequiredRole(req);
+  if (requiredRole === null) {
+    rejectRequiredRole(res);
+    return;
+  }
+
   // リクエストボディからメッセージを取得します
-  // メッセージが指定されていない場合は、デフォルトメッセージを使用します
-  const clientMessage = req.body.message || "デフォルトメッセージ";
+  // メッセージは入力値検証ミドルウェアで必須の文字列であることを確認済みです
+  const clientMessage: string = req.body.message;
 
   // クライアントメッセージに基づいて応答を生成
   const message = generateResponseFromClientMessage(clientMessage);
@@ -131,55 +249,61 @@ export const sendMessage = (req: Request, res: Response): void => {
   // これはメッセージの送信時刻として使用されます
   const timestamp = new Date().toISOString();
   // クライアントのIPアドレスを取得します（ロギングとデバッグ用）
-  const clientIP =
-    req.headers["x-forwarded-for"] || req.socket.remoteAddress || "unknown";
+  const clientIP = getClientIP(req);
 
   // 全クライアントにメッセージを送信
-  // 接続中のすべてのクライアントに対して繰り返し処理を行います
-  let successCount = 0;
-  clients.forEach((client) => {
-    try {
-      // 各クライアントにSSEイベントとしてメッセージを送信します
-      // イベントタイプは'message'、データはタイムスタンプとメッセージ内容を含むオブジェクトです
-      sendEvent(client.res, "message", { time: timestamp, message: message });
-      // 送信成功カウンターをインクリメントします
-      successCount++;
-    } catch (error) {
-      // エラーが発生した場合（クライアントが切断されているなど）はログに記録します
-      // これにより、問題のあるクライアントを特定できます
-      console.error(
-        `[${new Date().toISOString()}] メッセージ送信エラー - クライアントID: ${client.id} - エラー: ${error}`,
-      );
-    }
-  });
+  // イベントタイプは'message'、データはタイムスタンプとメッセージ内容を含むオブジェクトです
+  // broadcastはメッセージに1つのイベントIDを割り当て、全クライアントに同じフレームを配信します
+  // IDを採番できない場合は503エラーになり、エラーハンドラーがレスポンスを返します
+  const successCount = await broadcast(
+    "message",
+    { time: timestamp, message: message },
+    channel,
+    requiredRole,
+  );
 
   // メッセージ送信をログに記録します
   // メッセージ内容、送信先クライアント数、送信元IPアドレスを記録します
-  logMessageSent(message, successCount, clientIP as string);
+  logMessageSent(message, successCount, clientIP);
   // 送信結果をJSON形式でレスポンスします
   // 成功フラグ、メッセージ、送信先クライアント数を含みます
   res.status(200).json({
     success: true,
     message: "メッセージが送信されました",
+    channel,
     recipients: successCount,
   });
 };
 
+// ストリーミング中のチャンクの送信失敗をログに記録する関数
+// ストリーミングの開始を応答した後に送信するため、エラーレスポンスは返せません
+const logStreamError = (error: unknown): void => {
+  logError("ストリーミングメッセージの送信に失敗しました", error);
+};
+
 // 全クライアントにメッセージをストリーミング形式で送信するコントローラー
 // このコントローラーは'/stream-message'エンドポイントで使用され、
 // メッセージを小さなチャンクに分割して段階的に送信します
 // ChatGPTのような「考え中」の表示を実現するための機能です
 export const streamMessage = (req: Request, res: Response): void => {
+  // リクエストボディから送信先チャンネルを取得します
+  const channel = resolveChannel(req);
+  // リクエストボディからイベントを受信するために必要な役割を取得します
+  const requiredRole = resolveRequiredRole(req);
+  if (requiredRole === null) {
+    rejectRequiredRole(res);
+    return;
+  }
+
   // リクエストボディからメッセージを取得します
-  const clientMessage = req.body.message || "デフォルトメッセージ";
+  const clientMessage: string = req.body.message;
 
   // クライアントメッセージに基づいて応答を生成
   const message = generateResponseFromClientMessage(clientMessage);
   // 現在のタイムスタンプをISO形式で取得します
   const timestamp = new Date().toISOString();
   // クライアントのIPアドレスを取得します
-  const clientIP =
-    req.headers["x-forwarded-for"] || req.socket.remoteAddress || "unknown";
+  const clientIP = getClientIP(req);
 
   // メッセージをチャンクに分割（単語ごと）
   // 空白文字で分割することで、単語単位でのストリーミングを実現します
@@ -189,19 +313,21 @@ export const streamMessage = (req: Request, res: Response): void => {
   // 各チャンクを順次送信するための変数初期化
   // chunkIndex: 現在処理中のチャンクのインデックス
   // accumulatedMessage: これまでに送信したチャンクを累積したメッセージ
-  // successCount: 送信に成功したクライアント数のカウンター
   let chunkIndex = 0;
   let accumulatedMessage = "";
-  let successCount = 0;
+  // 次のチャンクを送信するタイマー（中止時に解除するために保持します）
+  let chunkTimer: ReturnType<typeof setTimeout> | null = null;
 
-  // 接続中のクライアント数を確認
-  // クライアントが一人も接続されていない場合は処理を行わず早期リターンします
+  // チャンネルを購読していて、メッセージを受信できるクライアント数を確認
+  // クライアントが一人も購読していない場合は処理を行わず早期リターンします
   // これにより、不要な処理を回避し、サーバーリソースを節約します
-  if (clients.length === 0) {
+  const subscriberCount = getEligibleSubscribers(channel, requiredRole).length;
+  if (subscriberCount === 0) {
     // クライアントが接続されていない場合は早期リターン
     res.status(200).json({
       success: true,
       message: "クライアントが接続されていません",
+      channel,
       recipients: 0,
     });
     return;
@@ -209,15 +335,50 @@ export const streamMessage = (req: Request, res: Response): void => {
 
   // 送信開始をログに記録
   // ストリーミングの開始時点をログに残すことで、デバッグや監視が容易になります
-  logMessageSent(
-    `ストリーミング開始: ${message}`,
-    clients.length,
-    clientIP as string,
-  );
+  logMessageSent(`ストリーミング開始: ${message}`, subscriberCount, clientIP);
+
+  // 送信中のストリーミングとして登録します
+  // 中止された場合は、それまでの累積メッセージを完了扱いで送信し、中止されたことを通知します
+  const stream: ActiveStream = {
+    cancel: () => {
+      // 最後のチャンクを送信済みの場合は、完成したメッセージの保存を待っているだけのため何もしません
+      if (chunkIndex >= chunks.length) {
+        return;
+      }
+      if (chunkTimer) {
+        clearTimeout(chunkTimer);
+        chunkTimer = null;
+      }
+      broadcast(
+        "partial-message",
+        {
+          time: timestamp,
+          message: accumulatedMessage,
+          isComplete: true,
+          cancelled: true,
+          progress: Math.floor((chunkIndex / chunks.length) * 100),
+        },
+        channel,
+        requiredRole,
+      )
+        .then((successCount) =>
+          logMessageSent(
+            `ストリーミング中止: ${accumulatedMessage}`,
+            successCount,
+            clientIP,
+          ),
+        )
+        .catch(logStreamError)
+        // 中止の通知の送信（IDの採番とブローカーへの発行）が終わってから終了を記録します
+        // シャットダウン時は、これを待ってからクライアントの接続が閉じられます
+        .finally(() => finishStream(stream));
+    },
+  };
+  activeStreams.add(stream);
 
   // 次のチャンクを送信する関数
   // この関数は再帰的に呼び出され、すべてのチャンクが送信されるまで処理を続けます
-  // 各チャンクの送信間には一定の遅延（100ms）を設けることで、タイピング中の効果を演出します
+  // 各チャンクの送信間には一定の遅延（STREAM_CHUNK_DELAY_MS、既定は100ms）を設けることで、タイピング中の効果を演出します
   const sendNextChunk = () => {
     if (chunkIndex < chunks.length) {
       // 次のチャンクを累積メッセージに追加
@@ -227,46 +388,42 @@ export const streamMessage = (req: Request, res: Response): void => {
       chunkIndex++;
 
       // 全クライアントに現在までの累積メッセージを送信
-      // 各クライアントに対して、現在までに処理したチャンクを含むメッセージを送信します
-      clients.forEach((client) => {
-        try {
-          // 'partial-message'イベントタイプで送信することで、フロントエンド側で特別な処理が可能になります
-          // time: タイムスタンプ（メッセージの送信時刻）
-          // message: 現在までの累積メッセージ
-          // isComplete: すべてのチャンクが送信完了したかどうかのフラグ
-          // progress: 送信の進捗率（パーセント）- プログレスバー表示に使用
-          sendEvent(client.res, "partial-message", {
-            time: timestamp,
-            message: accumulatedMessage,
-            isComplete: chunkIndex >= chunks.length,
-            progress: Math.floor((chunkIndex / chunks.length) * 100),
-          });
-
-          // 最後のチャンクの場合は成功カウントをインクリメント
-          if (chunkIndex >= chunks.length) {
-            successCount++;
-          }
-        } catch (error) {
-          // エラーが発生した場合はログに記録
-          console.error(
-            `[${new Date().toISOString()}] ストリーミングメッセージ送信エラー - クライアントID: ${client.id} - エラー: ${error}`,
-          );
-        }
-      });
-
-      // 次のチャンクを送信するタイマーをセット（100ms間隔）
-      // まだ送信すべきチャンクが残っている場合は、100ms後に再度この関数を呼び出します
+      // 'partial-message'イベントタイプで送信することで、フロントエンド側で特別な処理が可能になります
+      // time: タイムスタンプ（メッセージの送信時刻）
+      // message: 現在までの累積メッセージ
+      // isComplete: すべてのチャンクが送信完了したかどうかのフラグ
+      // progress: 送信の進捗率（パーセント）- プログレスバー表示に使用
+      const data = {
+        time: timestamp,
+        message: accumulatedMessage,
+        isComplete: chunkIndex >= chunks.length,
+        progress: Math.floor((chunkIndex / chunks.length) * 100),
+      };
+
+      // 次のチャンクを送信するタイマーをセット（STREAM_CHUNK_DELAY_MS間隔、既定は100ms）
+      // まだ送信すべきチャンクが残っている場合は、設定された間隔の後に再度この関数を呼び出します
       // この遅延により、タイピング中のような段階的な表示効果が生まれます
       if (chunkIndex < chunks.length) {
-        setTimeout(sendNextChunk, 100);
+        // 途中経過は再送用に保存せずに送信します
+        // チャンクごとに保存すると、同じチャンネルの他のメッセージが再送用の履歴から押し出されてしまいます
+        broadcastTransient("partial-message", data, channel, requiredRole);
+        chunkTimer = setTimeout(sendNextChunk, STREAM_CHUNK_DELAY_MS);
       } else {
+        chunkTimer = null;
+        // 完成したメッセージのみをイベントIDを付けて保存し、再接続時に再送できるようにします
         // 全チャンク送信完了をログに記録
-        // すべてのチャンクの送信が完了したことをログに残し、処理の終了を明確にします
-        logMessageSent(
-          `ストリーミング完了: ${message}`,
-          successCount,
-          clientIP as string,
-        );
+        // 最後のチャンクの送信に成功したクライアント数と、処理の終了をログに残します
+        broadcast("partial-message", data, channel, requiredRole)
+          .then((successCount) =>
+            logMessageSent(
+              `ストリーミング完了: ${message}`,
+              successCount,
+              clientIP,
+            ),
+          )
+          .catch(logStreamError)
+          // 送信中のストリーミングの一覧から削除します
+          .finally(() => finishStream(stream));
       }
     }
   };
@@ -283,6 +440,59 @@ export const streamMessage = (req: Request, res: Response): void => {
   res.status(200).json({
     success: true,
     message: "ストリーミングメッセージの送信を開始しました",
-    recipients: clients.length,
+    channel,
+    recipients: subscriberCount,
+  });
+};
+
+// 特定のユーザーにメッセージを送信するコントローラー
+// このコントローラーは'/users/:id/messages'エンドポイントで使用され、
+// 指定されたユーザーが開いているすべての認証付きSSE接続にのみメッセージを送信します
+// 通知やダイレクトメッセージの基盤となる機能です
+export const sendUserMessage = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  // URLパラメータから宛先ユーザーIDを取得します
+  // IDが整数であることは入力値検証ミドルウェアで確認済みです
+  const userId = Number(req.params.id);
+
+  // 宛先ユーザーが存在するか確認します
+  const recipient = findUserById(userId);
+  if (!recipient) {
+    sendError(res, 404, "NOT_FOUND", "ユーザーが見つかりません");
+    return;
+  }
+
+  // リクエストボディからメッセージを取得します
+  // ダイレクトメッセージは内容をそのまま届けるため、入力値検証ミドルウェアでメッセージの指定を必須にしています
+  const message: string = req.body.message;
+
+  // クライアントのIPアドレスを取得します
+  const clientIP = getClientIP(req);
+
+  // 宛先ユーザーのすべての接続にメッセージを送信します
+  // イベントはそのユーザー専用のキャッシュに保存され、再接続時もそのユーザーにのみ再送されます
+  const successCount = await sendToUser(userId, "message", {
+    time: new Date().toISOString(),
+    message,
+    // APIキーで送信した場合は、APIキーの名前を送信者とします
+    from: req.user?.username ?? req.apiKey?.name,
+    to: recipient.username,
+  });
+
+  // メッセージ送信をログに記録します
+  logMessageSent(
+    `ユーザー宛て(${recipient.username}): ${message}`,
+    successCount,
+    clientIP,
+  );
+  // 送信結果をJSON形式でレスポンスします
+  // 宛先ユーザーが接続していない場合でもイベントはキャッシュされるため、成功として扱います
+  res.status(200).json({
+    success: true,
+    message: "メッセージが送信されました",
+    userId,
+    recipients: successCount,
   });
 };
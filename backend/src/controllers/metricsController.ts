@@ -0,0 +1,15 @@
+// メトリクスコントローラー
+// このファイルはPrometheusがメトリクスを収集するための/metricsエンドポイントを提供します
+import { Request, Response } from "express";
+// メトリクスをテキスト形式で出力する関数をインポートします
+import { renderMetrics } from "../utils/metrics";
+
+// メトリクスを返すコントローラー
+// GET /metrics
+// Prometheusのテキスト形式（バージョン0.0.4）でメトリクスを返します
+export const getMetrics = (_req: Request, res: Response): void => {
+  res
+    .status(200)
+    .type("text/plain; version=0.0.4; charset=utf-8")
+    .send(renderMetrics());
+};
@@ -5,6 +5,35 @@ import { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
 // JWT署名に使用する秘密鍵を設定ファイルからインポートします
 import { JWT_SECRET } from "../config/index";
+// SSE接続チケットを検証する関数をインポートします
+import { redeemTicket } from "../models/ticket";
+// ログアウトによって失効したセッションかどうかを確認する関数をインポートします
+import { isSessionRevoked } from "../models/session";
+// 役割とチャンネルの権限を判定する関数をインポートします
+import { hasRole, canAccessChannel } from "../models/permission";
+import { Role } from "../config/index";
+// サーバー間の送信に使用するAPIキーを認証・確認する関数をインポートします
+import {
+  ApiKey,
+  API_KEY_HEADER,
+  API_KEY_ROLE,
+  authenticateApiKey,
+  canSendEventType,
+  canSendToChannel,
+} from "../models/apiKey";
+// CSRFトークンの比較に使用します
+import { timingSafeEqual } from "crypto";
+import { Buffer } from "buffer";
+// エラーレスポンスを送信する関数をインポートします
+import { sendError } from "../utils/errors";
+// 認証クッキーの名前と、クッキーを読み取る関数をインポートします
+import {
+  AUTH_COOKIE,
+  REFRESH_COOKIE,
+  CSRF_COOKIE,
+  CSRF_HEADER,
+  readCookie,
+} from "../utils/cookies";
 
 // ExpressRequestを拡張してuserプロパティを追加
 // これにより、認証されたユーザーの情報をリクエストオブジェクトに保存できます
@@ -15,72 +44,309 @@ declare module "express" {
       id: number;
       username: string;
       role: string;
+      // ログインのセッションID（ログアウトによるトークンの失効に使用します）
+      sid?: string;
+      // トークンの有効期限（UNIXタイムスタンプ、秒単位）
+      // SSEストリームを有効期限で閉じるために使用します
+      exp?: number;
     };
+    // APIキーで認証された場合のAPIキー（ユーザーとして認証された場合はundefined）
+    apiKey?: ApiKey;
   }
 }
 
+// 認証済みユーザーの型
+type AuthUser = NonNullable<Request["user"]>;
+
+// リクエストの役割を返す関数
+// APIキーで認証された場合はAPIキーの役割（publisher）、ユーザーとして認証された場合はユーザーの役割を返します
+export const getRequestRole = (req: Request): string | undefined => {
+  return req.apiKey ? API_KEY_ROLE : req.user?.role;
+};
+
+// 状態を変更しないHTTPメソッド
+// これらのメソッドのリクエストはCSRF対策の対象外です
+const SAFE_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+// リクエストからトークンを取得する関数
+// ヘッダーとクッキーからトークンを取得することで、
+// さまざまなクライアント環境（ブラウザ、モバイルアプリなど）に対応できます
+// URLのクエリパラメータのトークンは受け付けません。URLはアクセスログやブラウザの履歴に残り、
+// トークンが漏れてしまうためです（SSE接続では使い捨てのSSE接続チケットを使用します）
+// 戻り値のfromCookieは、クッキーから取得したかどうか（CSRF対策が必要かどうか）です
+const extractToken = (
+  req: Request,
+): { token: string; fromCookie: boolean } | null => {
+  // ヘッダーからトークンを取得
+  // Authorization: Bearer xxxxx 形式のヘッダーからトークンを抽出します
+  const authHeader = req.headers.authorization;
+  // クッキーからトークンを取得
+  // ログイン時にサーバーが設定したHttpOnlyのauth_tokenクッキーからトークンを抽出します
+  const tokenCookie = readCookie(req, AUTH_COOKIE);
+
+  // トークンの取得（優先順位: ヘッダー > クッキー）
+  // Authorizationヘッダーがあり、Bearer形式の場合
+  if (authHeader && authHeader.startsWith("Bearer ")) {
+    return { token: authHeader.split(" ")[1], fromCookie: false };
+  }
+  // クッキーにトークンがある場合
+  if (tokenCookie) {
+    return { token: tokenCookie, fromCookie: true };
+  }
+  return null;
+};
+
+// トークンを検証する関数
+// 署名と有効期限が正しく、ログアウトによって失効していないトークンの場合はユーザー情報を返します
+// それ以外の場合（期限切れ、改ざん、失効など）はnullを返します
+const verifyToken = (token: string): AuthUser | null => {
+  try {
+    // JWTトークンを検証します
+    // トークンが有効な場合、デコードされたペイロードを取得します
+    const decoded = jwt.verify(token, JWT_SECRET) as AuthUser;
+    // 署名と有効期限が正しくても、失効リストに含まれるトークンは使用できません
+    return isSessionRevoked(decoded.sid) ? null : decoded;
+  } catch {
+    return null;
+  }
+};
+
+// CSRFトークンを検証する関数
+// クッキーは他のサイトからのリクエストにも自動的に送信されるため、
+// 状態を変更するリクエストでは、クッキーのCSRFトークンと同じ値がX-CSRF-Tokenヘッダーにあることを確認します
+// 他のサイトのJavaScriptはクッキーを読み取れないため、正しいヘッダーを送信できません
+const hasValidCsrfToken = (req: Request): boolean => {
+  if (SAFE_METHODS.includes(req.method)) {
+    return true;
+  }
+  const cookie = readCookie(req, CSRF_COOKIE);
+  const header = req.headers[CSRF_HEADER];
+  if (!cookie || typeof header !== "string") {
+    return false;
+  }
+  // 比較にかかる時間から値を推測されないよう、一定時間で比較します
+  const expected = Buffer.from(cookie);
+  const actual = Buffer.from(header);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
 // 認証ミドルウェア
 // このミドルウェアは認証が必要なルート（/secure-eventsなど）で使用されます
 // JWTトークンを検証し、有効な場合はリクエストを次のハンドラーに渡します
+// クッキーで認証する状態変更リクエスト（POSTなど）では、CSRFトークンも検証します
 export const authMiddleware = (
   req: Request,
   res: Response,
   next: NextFunction,
 ): void => {
-  // ヘッダーからトークンを取得
-  // Authorization: Bearer xxxxx 形式のヘッダーからトークンを抽出します
-  const authHeader = req.headers.authorization;
-  // クエリパラメータからトークンを取得
-  // ?token=xxxxx 形式のURLパラメータからトークンを抽出します
-  // これはSSEのようなストリーミング接続で特に便利です（ヘッダーが使えない場合）
-  const tokenQuery = req.query.token as string;
-  // クッキーからトークンを取得
-  // auth_token=xxxxx 形式のクッキーからトークンを抽出します
-  const cookies = req.headers.cookie
-    ?.split(";")
-    .find((c) => c.trim().startsWith("auth_token="));
-  const tokenCookie = cookies ? cookies.split("=")[1] : null;
+  const found = extractToken(req);
 
-  // トークンの取得（優先順位: ヘッダー > クエリ > クッキー）
-  // 複数の場所からトークンを取得できるようにすることで、
-  // さまざまなクライアント環境（ブラウザ、モバイルアプリなど）に対応できます
-  let token: string | null = null;
+  // トークンがない場合は401 Unauthorizedエラーを返します
+  if (!found) {
+    sendError(res, 401, "UNAUTHORIZED", "認証が必要です");
+    return;
+  }
 
-  // Authorizationヘッダーがあり、Bearer形式の場合
-  if (authHeader && authHeader.startsWith("Bearer ")) {
-    token = authHeader.split(" ")[1];
+  // トークンが無効な場合（期限切れ、改ざん、失効など）は401エラーを返します
+  const user = verifyToken(found.token);
+  if (!user) {
+    sendError(res, 401, "INVALID_TOKEN", "無効なトークンです");
+    return;
   }
-  // クエリパラメータにトークンがある場合
-  else if (tokenQuery) {
-    token = tokenQuery;
+
+  // クッキーで認証する状態変更リクエストで、CSRFトークンが一致しない場合は403エラーを返します
+  if (found.fromCookie && !hasValidCsrfToken(req)) {
+    sendError(res, 403, "INVALID_CSRF_TOKEN", "CSRFトークンが無効です");
+    return;
   }
-  // クッキーにトークンがある場合
-  else if (tokenCookie) {
-    token = tokenCookie;
+
+  // デコードされたユーザー情報をリクエストオブジェクトに保存します
+  // これにより、後続のハンドラー（コントローラーなど）でユーザー情報にアクセスできます
+  req.user = user;
+  // 次のミドルウェアまたはルートハンドラーに処理を渡します
+  next();
+};
+
+// 送信エンドポイント用の認証ミドルウェア
+// /send-messageなどの送信エンドポイントで使用されます
+// X-API-KeyヘッダーのAPIキー（サーバー間の送信用）による認証を受け付けます
+// APIキーが指定されていない場合は、通常の認証ミドルウェア（JWT）で認証します
+// APIキーはブラウザが自動的に送信しないため、CSRFトークンは検証しません
+export const publishAuthMiddleware = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  const key = req.headers[API_KEY_HEADER];
+  if (key === undefined) {
+    authMiddleware(req, res, next);
+    return;
   }
 
-  // トークンがない場合は401 Unauthorizedエラーを返します
-  if (!token) {
-    res.status(401).send("認証が必要です");
+  // 存在しない、または失効したAPIキーの場合は401エラーを返します
+  const apiKey = typeof key === "string" ? authenticateApiKey(key) : null;
+  if (!apiKey) {
+    sendError(res, 401, "INVALID_TOKEN", "無効なAPIキーです");
     return;
   }
+  req.apiKey = apiKey;
+  next();
+};
 
-  try {
-    // JWTトークンを検証します
-    // トークンが有効な場合、デコードされたペイロードを取得します
-    const decoded = jwt.verify(token, JWT_SECRET) as {
-      id: number;
-      username: string;
-      role: string;
-    };
-    // デコードされたユーザー情報をリクエストオブジェクトに保存します
-    // これにより、後続のハンドラー（コントローラーなど）でユーザー情報にアクセスできます
-    req.user = decoded;
-    // 次のミドルウェアまたはルートハンドラーに処理を渡します
-    next();
-  } catch {
-    // トークンが無効な場合（期限切れ、改ざんなど）は401エラーを返します
-    res.status(401).send("無効なトークンです");
+// 任意認証ミドルウェア
+// 有効なトークンがある場合のみreq.userを設定し、ない場合もリクエストを拒否しません
+// トークンの期限が切れていても処理を続ける必要があるログアウトで使用されます
+// CSRFトークンは検証しないため、csrfProtectionと組み合わせて使用します
+export const optionalAuthMiddleware = (
+  req: Request,
+  _res: Response,
+  next: NextFunction,
+): void => {
+  const found = extractToken(req);
+  const user = found ? verifyToken(found.token) : null;
+  if (user) {
+    req.user = user;
+  }
+  next();
+};
+
+// CSRF対策ミドルウェア
+// 認証ミドルウェアを使用しない、クッキーで認証するエンドポイント（トークン更新、ログアウト）で使用されます
+// Authorizationヘッダーを使用するクライアントはCSRFの影響を受けないため、検証しません
+export const csrfProtection = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  const usesCookie =
+    !req.headers.authorization?.startsWith("Bearer ") &&
+    (readCookie(req, AUTH_COOKIE) !== null ||
+      readCookie(req, REFRESH_COOKIE) !== null);
+  if (usesCookie && !hasValidCsrfToken(req)) {
+    sendError(res, 403, "INVALID_CSRF_TOKEN", "CSRFトークンが無効です");
     return;
   }
+  next();
 };
+
+// SSEストリーム用の認証ミドルウェア
+// /secure-eventsなどのストリームエンドポイントで使用されます
+// ?ticket=xxxxx 形式のSSE接続チケット（POST /api/sse-ticketで発行）による認証を受け付けます
+// チケットは使い捨てのため、同じURLでの再接続は401エラーになり、クライアントは新しいチケットを取得します
+// チケットが指定されていない場合は、通常の認証ミドルウェアで認証します（ヘッダーまたはクッキー）
+// URLで受け付ける認証情報は、使い捨てのチケットのみです
+export const streamAuthMiddleware = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  const ticket = req.query.ticket;
+  if (ticket === undefined) {
+    authMiddleware(req, res, next);
+    return;
+  }
+
+  // チケットを検証し、紐づくユーザー情報をリクエストオブジェクトに保存します
+  // チケットの発行後にログアウトされた場合も無効とします
+  const user = typeof ticket === "string" ? redeemTicket(ticket) : null;
+  if (!user || isSessionRevoked(user.sid)) {
+    // チケットが無効な場合（使用済み、期限切れなど）は401エラーを返します
+    sendError(res, 401, "INVALID_TOKEN", "無効なチケットです");
+    return;
+  }
+  req.user = user;
+  next();
+};
+
+// 役割チェックミドルウェアを作成する関数
+// authMiddlewareの後に使用し、認証されたユーザーが指定された役割以上の役割を持つ場合のみ
+// リクエストを次のハンドラーに渡します（例: "publisher"を指定した場合はpublisherとadminを許可します）
+// 例: router.use(authMiddleware, requireRole("admin"))
+export const requireRole =
+  (role: Role) =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    // 認証されていない場合は401 Unauthorizedエラーを返します
+    if (!req.user && !req.apiKey) {
+      sendError(res, 401, "UNAUTHORIZED", "認証が必要です");
+      return;
+    }
+    // 役割が足りない場合は403 Forbiddenエラーを返します
+    if (!hasRole(getRequestRole(req), role)) {
+      sendError(res, 403, "FORBIDDEN", "この操作を行う権限がありません");
+      return;
+    }
+    next();
+  };
+
+// チャンネル権限チェックミドルウェアを作成する関数
+// getChannelsでリクエストから対象のチャンネル名を取得し、CHANNEL_ROLESで役割が必要なチャンネルについて、
+// ユーザーがその役割以上の役割を持つ場合のみリクエストを次のハンドラーに渡します
+// 例: router.post("/send-message", authMiddleware, express.json(), requireChannelAccess((req) => [req.body.channel]))
+export const requireChannelAccess =
+  (getChannels: (req: Request) => string[]) =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    const denied = getChannels(req).find(
+      (channel) => !canAccessChannel(getRequestRole(req), channel),
+    );
+    if (denied !== undefined) {
+      sendError(
+        res,
+        403,
+        "FORBIDDEN",
+        `チャンネル${denied}にアクセスする権限がありません`,
+      );
+      return;
+    }
+    next();
+  };
+
+// APIキーの範囲チェックミドルウェアを作成する関数
+// APIキーで認証されたリクエストについて、APIキーに指定されたイベントの種類とチャンネルにのみ送信を許可します
+// getChannelsを省略した場合（ユーザー宛て送信など、チャンネルに送信しない場合）は、
+// チャンネルを限定していないAPIキーのみを許可します
+// ユーザーとして認証されたリクエストは確認せずに次のハンドラーに渡します
+// 例: router.post("/send-message", publishAuthMiddleware, express.json(), requireApiKeyScope("message", (req) => [req.body.channel]))
+export const requireApiKeyScope =
+  (eventType: string, getChannels?: (req: Request) => string[]) =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    const apiKey = req.apiKey;
+    if (!apiKey) {
+      next();
+      return;
+    }
+    if (!canSendEventType(apiKey, eventType)) {
+      sendError(
+        res,
+        403,
+        "FORBIDDEN",
+        `このAPIキーでは${eventType}イベントを送信できません`,
+      );
+      return;
+    }
+    if (!getChannels) {
+      if (apiKey.channels !== null) {
+        sendError(
+          res,
+          403,
+          "FORBIDDEN",
+          "チャンネルを限定したAPIキーではユーザー宛てに送信できません",
+        );
+        return;
+      }
+      next();
+      return;
+    }
+    const denied = getChannels(req).find(
+      (channel) => !canSendToChannel(apiKey, channel),
+    );
+    if (denied !== undefined) {
+      sendError(
+        res,
+        403,
+        "FORBIDDEN",
+        `このAPIキーではチャンネル${denied}に送信できません`,
+      );
+      return;
+    }
+    next();
+  };
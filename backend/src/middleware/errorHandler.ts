@@ -0,0 +1,76 @@
+// エラーハンドラーファイル
+// このファイルはすべてのルートの後に登録する、404エラーと予期しないエラーのハンドラーを提供します
+// どのエンドポイントのエラーも共通の形式（utils/errors.ts）のJSONで返します
+import { Request, Response, NextFunction } from "express";
+// エラーレスポンスを送信する関数をインポートします
+import { isApiError, sendError } from "../utils/errors";
+// ログ出力用の関数をインポートします
+import { logError } from "../utils/logger";
+
+// express.json()が投げるエラーの型定義
+// - type: エラーの種類（"entity.parse.failed"、"entity.too.large"など）
+// - status: レスポンスに使用するステータスコード
+interface BodyParserError extends Error {
+  type?: string;
+  status?: number;
+}
+
+// どのルートにも一致しなかったリクエストのハンドラー
+// Expressの既定のHTMLではなく、共通の形式の404エラーを返します
+export const notFoundHandler = (req: Request, res: Response): void => {
+  sendError(res, 404, "NOT_FOUND", `${req.method} ${req.path} は存在しません`);
+};
+
+// エラーハンドラー
+// ミドルウェアやコントローラーがnext(error)に渡したエラー、非同期のコントローラーで発生したエラーを処理します
+// Expressは引数が4つの関数をエラーハンドラーとして扱うため、使用しない引数も省略できません
+export const errorHandler = (
+  error: unknown,
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  // SSEストリームなど、すでにレスポンスを送信し始めている場合はExpressの既定の処理に任せます
+  if (res.headersSent) {
+    next(error);
+    return;
+  }
+
+  // 入力値の検証エラーなど、エラーレスポンスの内容が決まっているエラー
+  if (isApiError(error)) {
+    sendError(res, error.status, error.code, error.message, error.details);
+    return;
+  }
+
+  // リクエストボディの解析エラー（express.json()）
+  const parserError = error as BodyParserError;
+  if (parserError.type === "entity.parse.failed") {
+    sendError(
+      res,
+      400,
+      "INVALID_JSON",
+      "リクエストボディをJSONとして解析できません",
+    );
+    return;
+  }
+  if (parserError.type === "entity.too.large") {
+    sendError(res, 413, "PAYLOAD_TOO_LARGE", "リクエストボディが大きすぎます");
+    return;
+  }
+  if (
+    typeof parserError.status === "number" &&
+    parserError.status >= 400 &&
+    parserError.status < 500
+  ) {
+    sendError(res, parserError.status, "BAD_REQUEST", parserError.message);
+    return;
+  }
+
+  // 予期しないエラー
+  // 内部の情報を含む可能性があるため、エラーの内容はログにのみ記録します
+  logError(
+    `リクエストの処理中にエラーが発生しました - ${req.method} ${req.baseUrl}${req.path}`,
+    error,
+  );
+  sendError(res, 500, "INTERNAL_ERROR", "サーバーでエラーが発生しました");
+};
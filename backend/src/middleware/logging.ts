@@ -2,6 +2,10 @@
 // このファイルはすべてのHTTPリクエストとレスポンスをログに記録するミドルウェアを提供します
 // SSE接続を含むすべてのリクエストの監視とデバッグに役立ちます
 import { Request, Response, NextFunction } from "express";
+// HTTPリクエストの処理時間を記録するメトリクスをインポートします
+import { httpRequestDurationSeconds } from "../utils/metrics";
+// クライアントのIPアドレスを取得する関数をインポートします
+import { getClientIP } from "../utils/clientIp";
 
 // ExpressRequestを拡張してstartTimeプロパティを追加
 // これにより、リクエスト処理時間を計算できます
@@ -28,11 +32,11 @@ export const loggingMiddleware = (
   req.startTime = Date.now();
 
   // リクエスト情報をログに出力
-  // メソッド（GET, POST等）、URL、クライアントIPアドレスを記録します
-  const clientIP =
-    req.headers["x-forwarded-for"] || req.socket.remoteAddress || "unknown";
+  // メソッド（GET, POST等）、パス、クライアントIPアドレスを記録します
+  // SSE接続チケットなどがログに残らないよう、クエリパラメータを含むURLではなくパスを記録します
+  const clientIP = getClientIP(req);
   console.log(
-    `[${new Date().toISOString()}] ${req.method} ${req.url} - クライアント: ${clientIP}`,
+    `[${new Date().toISOString()}] ${req.method} ${req.path} - クライアント: ${clientIP}`,
   );
 
   // リクエストヘッダーとボディをログに出力（機密情報は除外）
@@ -63,8 +67,23 @@ export const loggingMiddleware = (
     // レスポンス情報をログに出力します
     // メソッド、URL、ステータスコード、処理時間を記録します
     console.log(
-      `[${new Date().toISOString()}] ${req.method} ${req.url} - ステータス: ${res.statusCode} - 処理時間: ${responseTime}ms`,
+      `[${new Date().toISOString()}] ${req.method} ${req.path} - ステータス: ${res.statusCode} - 処理時間: ${responseTime}ms`,
     );
+    // 処理時間をメトリクスに記録します
+    // SSEストリームは接続時間として別に記録するため除外します
+    // ラベルの種類が増えすぎないよう、URLではなくマッチしたルートのパターンを使用します
+    if (res.getHeader("Content-Type") !== "text/event-stream") {
+      httpRequestDurationSeconds.observe(
+        {
+          method: req.method,
+          route: req.route
+            ? `${req.baseUrl}${req.route.path}`
+            : req.baseUrl || "unmatched",
+          status: String(res.statusCode),
+        },
+        responseTime / 1000,
+      );
+    }
     // 元のres.endメソッドを呼び出して、レスポンスを実際に送信します
     return originalEnd.call(this, chunk, encoding, callback);
   };
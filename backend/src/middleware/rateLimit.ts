@@ -0,0 +1,141 @@
+// レート制限ミドルウェアファイル
+// このファイルはトークンバケット方式でリクエスト数を制限するミドルウェアを提供します
+// スクリプトによるログインの総当たりや、送信エンドポイントからの大量のメッセージ送信を防ぎます
+//
+// 制限の状態はRateLimit-Limit / RateLimit-Remaining / RateLimit-Resetヘッダーでクライアントに伝えます
+// 制限を超えたリクエストは、Retry-Afterヘッダー付きの429 Too Many Requestsエラーで拒否します
+import { Request, Response, NextFunction } from "express";
+// レート制限の設定を設定ファイルからインポートします
+import {
+  PUBLISH_RATE_LIMIT_PER_IP,
+  PUBLISH_RATE_LIMIT_PER_USER,
+  PUBLISH_RATE_BURST,
+  LOGIN_RATE_LIMIT_PER_IP,
+  LOGIN_RATE_BURST,
+} from "../config/index";
+// 制限の状態を保存するレート制限ストアをインポートします
+import { rateLimitStore } from "../models/rateLimitStore";
+// ログ出力用の関数をインポートします
+import { logInfo, logWarning } from "../utils/logger";
+// クライアントのIPアドレスを取得する関数をインポートします
+import { getClientIP } from "../utils/clientIp";
+// レート制限で拒否したリクエストの数を記録するメトリクスをインポートします
+import { rateLimitedRequestsTotal } from "../utils/metrics";
+// エラーレスポンスを送信する関数をインポートします
+import { sendError } from "../utils/errors";
+
+// レート制限の設定の型定義
+// - name: 制限の名前（ストアのキー、ログ、メトリクスに使用します）
+// - limitPerMinute: 1分あたりに補充されるトークンの数（0の場合は制限しません）
+// - burst: 連続して受け付けるリクエスト数の上限
+// - key: リクエストから制限の単位（IPアドレス、ユーザーIDなど）を取得する関数
+//   nullを返したリクエストは制限しません
+export interface RateLimitOptions {
+  name: string;
+  limitPerMinute: number;
+  burst: number;
+  key: (req: Request) => string | null;
+}
+
+// レート制限の状態をヘッダーに設定する関数
+// 複数の制限を通過するリクエストでは、残りが最も少ない制限の状態をクライアントに伝えます
+const setRateLimitHeaders = (
+  res: Response,
+  limit: number,
+  remaining: number,
+  resetMs: number,
+): void => {
+  const current = res.getHeader("RateLimit-Remaining");
+  if (current !== undefined && Number(current) <= remaining) {
+    return;
+  }
+  res.setHeader("RateLimit-Limit", String(limit));
+  res.setHeader("RateLimit-Remaining", String(remaining));
+  res.setHeader("RateLimit-Reset", String(Math.ceil(resetMs / 1000)));
+};
+
+// レート制限ミドルウェアを作成する関数
+// keyで取得した単位ごとにトークンバケットを持ち、リクエストごとにトークンを1つ消費します
+// 例: router.post("/send-message", rateLimit({ name: "publish-ip", limitPerMinute: 60, burst: 10, key: getClientIP }), ...)
+export const rateLimit = ({
+  name,
+  limitPerMinute,
+  burst,
+  key,
+}: RateLimitOptions) => {
+  const bucket = { capacity: burst, refillPerMs: limitPerMinute / 60000 };
+
+  return async (
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    const id = key(req);
+    if (limitPerMinute <= 0 || id === null) {
+      next();
+      return;
+    }
+
+    // ストアに接続できない場合などは、サービスを止めないよう制限せずに受け付けます
+    let result;
+    try {
+      result = await rateLimitStore.consume(`${name}:${id}`, bucket);
+    } catch (error) {
+      logWarning(
+        `レート制限の確認に失敗したため制限せずに受け付けます - 制限: ${name} - エラー: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      next();
+      return;
+    }
+
+    setRateLimitHeaders(res, burst, result.remaining, result.resetMs);
+    if (result.allowed) {
+      next();
+      return;
+    }
+
+    logInfo(
+      `レート制限によりリクエストを拒否 - 制限: ${name} - 対象: ${id} - ${req.method} ${req.baseUrl}${req.path}`,
+    );
+    rateLimitedRequestsTotal.inc({ limiter: name });
+    res.set("Retry-After", String(Math.ceil(result.retryAfterMs / 1000)));
+    sendError(
+      res,
+      429,
+      "RATE_LIMITED",
+      "リクエストが多すぎます。しばらくしてからお試しください。",
+    );
+  };
+};
+
+// 送信エンドポイントの接続元IPアドレスごとの制限
+export const publishIpRateLimit = rateLimit({
+  name: "publish-ip",
+  limitPerMinute: PUBLISH_RATE_LIMIT_PER_IP,
+  burst: PUBLISH_RATE_BURST,
+  key: getClientIP,
+});
+
+// 送信エンドポイントのユーザーごとの制限
+// 認証ミドルウェアの後に使用します（認証されていないリクエストは制限しません）
+// APIキーで認証されたリクエストは、APIキーごとにユーザーと同じ上限で制限します
+export const publishUserRateLimit = rateLimit({
+  name: "publish-user",
+  limitPerMinute: PUBLISH_RATE_LIMIT_PER_USER,
+  burst: PUBLISH_RATE_BURST,
+  key: (req) => {
+    if (req.apiKey) {
+      return `api-key-${req.apiKey.id}`;
+    }
+    return req.user ? String(req.user.id) : null;
+  },
+});
+
+// ログイン・ユーザー登録の接続元IPアドレスごとの制限
+// 多数のユーザー名に対してパスワードを試す攻撃を防ぎます
+export const loginRateLimit = rateLimit({
+  name: "login-ip",
+  limitPerMinute: LOGIN_RATE_LIMIT_PER_IP,
+  burst: LOGIN_RATE_BURST,
+  key: getClientIP,
+});
@@ -0,0 +1,48 @@
+// シャットダウンミドルウェアファイル
+// このファイルはサーバーのシャットダウン中に新しいリクエストを受け付けないようにするミドルウェアを提供します
+// SSE接続やメッセージ送信のエンドポイントで使用され、停止中のインスタンスに新しいストリームが作られるのを防ぎます
+import { Request, Response, NextFunction } from "express";
+// ログ出力用の関数をインポートします
+import { logInfo } from "../utils/logger";
+// クライアントに提案する再接続間隔を設定ファイルからインポートします
+import { SHUTDOWN_RETRY_MS } from "../config/index";
+// エラーレスポンスを送信する関数をインポートします
+import { sendError } from "../utils/errors";
+
+// シャットダウン中かどうかのフラグ
+let shuttingDown = false;
+
+// シャットダウンを開始する関数
+// これ以降、shutdownMiddlewareを通過するリクエストは503エラーで拒否されます
+export const beginShutdown = (): void => {
+  shuttingDown = true;
+};
+
+// シャットダウン中かどうかを返す関数
+export const isShuttingDown = (): boolean => {
+  return shuttingDown;
+};
+
+// シャットダウンミドルウェア
+// シャットダウン中は新しいリクエストを503 Service Unavailableで拒否します
+// Retry-Afterヘッダーを付けることで、クライアントに再試行までの待ち時間を伝えます
+export const shutdownMiddleware = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  if (!shuttingDown) {
+    next();
+    return;
+  }
+
+  logInfo(`シャットダウン中のためリクエストを拒否 - ${req.method} ${req.path}`);
+  res.setHeader("Connection", "close");
+  res.setHeader("Retry-After", String(Math.ceil(SHUTDOWN_RETRY_MS / 1000)));
+  sendError(
+    res,
+    503,
+    "SERVICE_UNAVAILABLE",
+    "サーバーはシャットダウン中です。後でお試しください。",
+  );
+};
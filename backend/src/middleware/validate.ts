@@ -0,0 +1,182 @@
+// 入力値検証ミドルウェアファイル
+// このファイルはリクエストのボディ・クエリパラメータ・URLパラメータをスキーマで検証するミドルウェアを提供します
+// 検証に失敗したリクエストはコントローラーに渡さず、400エラー（VALIDATION_ERROR）で拒否します
+// コントローラーは検証済みの型（文字列、整数など）を前提に値を読み取れます
+import { Request, Response, NextFunction } from "express";
+// エラーレスポンスに変換できるエラーを作成する関数をインポートします
+import { FieldError, createApiError } from "../utils/errors";
+
+// 項目の検証ルールの型定義
+// - required: 必須の項目かどうか（省略時は任意。任意の項目はundefined・null・空文字列を省略として扱います）
+// - label: エラーメッセージに表示する項目名（省略時は項目のキー）
+// 文字列（string）:
+// - minLength / maxLength: 文字数の範囲
+// - pattern: 値が一致する必要がある正規表現（一致しない場合はpatternMessageを表示します）
+// - oneOf: 指定できる値の一覧
+// - check: 追加の検証を行う関数（不正な場合はエラーメッセージを、正しい場合はnullを返します）
+// 整数（integer）:
+// - min / max: 値の範囲（クエリパラメータ・URLパラメータの数字の文字列も整数として扱います）
+// 配列（array）:
+// - minItems / maxItems: 要素数の範囲
+// - items: 各要素の検証ルール
+export type FieldRule = { required?: boolean; label?: string } & (
+  | StringRule
+  | { type: "integer"; min?: number; max?: number }
+  | { type: "boolean" }
+  | {
+      type: "array";
+      minItems?: number;
+      maxItems?: number;
+      items: StringRule;
+    }
+);
+
+// 文字列の項目の検証ルール（配列の要素にも使用します）
+type StringRule = {
+  type: "string";
+  minLength?: number;
+  maxLength?: number;
+  pattern?: RegExp;
+  patternMessage?: string;
+  oneOf?: readonly string[];
+  check?: (value: string) => string | null;
+};
+
+// 項目名をキーとする検証ルール
+export type Schema = Record<string, FieldRule>;
+
+// リクエストの検証ルールの型定義
+export interface RequestSchema {
+  body?: Schema;
+  query?: Schema;
+  params?: Schema;
+}
+
+// 値が省略されているかどうかを確認する関数
+const isMissing = (value: unknown): boolean => {
+  return value === undefined || value === null || value === "";
+};
+
+// 1つの項目を検証する関数
+// 不正な場合はエラーメッセージを、正しい場合はnullを返します
+const validateField = (
+  value: unknown,
+  rule: FieldRule,
+  label: string,
+): string | null => {
+  if (isMissing(value)) {
+    return rule.required ? `${label}を指定してください` : null;
+  }
+
+  switch (rule.type) {
+    case "string": {
+      if (typeof value !== "string") {
+        return `${label}は文字列で指定してください`;
+      }
+      if (rule.minLength !== undefined && value.length < rule.minLength) {
+        return `${label}は${rule.minLength}文字以上で指定してください`;
+      }
+      if (rule.maxLength !== undefined && value.length > rule.maxLength) {
+        return `${label}は${rule.maxLength}文字以下で指定してください`;
+      }
+      if (rule.pattern && !rule.pattern.test(value)) {
+        return rule.patternMessage ?? `${label}の形式が不正です`;
+      }
+      if (rule.oneOf && !rule.oneOf.includes(value)) {
+        return `${label}は${rule.oneOf.join("、")}のいずれかで指定してください`;
+      }
+      return rule.check ? rule.check(value) : null;
+    }
+    case "integer": {
+      const number =
+        typeof value === "string" && /^-?\d+$/.test(value)
+          ? Number(value)
+          : value;
+      if (typeof number !== "number" || !Number.isSafeInteger(number)) {
+        return `${label}は整数で指定してください`;
+      }
+      if (
+        (rule.min !== undefined && number < rule.min) ||
+        (rule.max !== undefined && number > rule.max)
+      ) {
+        const range =
+          rule.max === undefined
+            ? `${rule.min}以上`
+            : `${rule.min ?? ""}〜${rule.max}`;
+        return `${label}は${range}の整数で指定してください`;
+      }
+      return null;
+    }
+    case "boolean":
+      return typeof value === "boolean"
+        ? null
+        : `${label}はtrueまたはfalseで指定してください`;
+    case "array": {
+      if (!Array.isArray(value)) {
+        return `${label}は配列で指定してください`;
+      }
+      if (rule.minItems !== undefined && value.length < rule.minItems) {
+        return `${label}は${rule.minItems}個以上指定してください`;
+      }
+      if (rule.maxItems !== undefined && value.length > rule.maxItems) {
+        return `${label}は${rule.maxItems}個以下で指定してください`;
+      }
+      // 要素は省略できないため、必須の項目として検証します
+      for (const item of value) {
+        const message = validateField(
+          item,
+          { ...rule.items, required: true },
+          `${label}の要素`,
+        );
+        if (message) {
+          return message;
+        }
+      }
+      return null;
+    }
+  }
+};
+
+// リクエストの一部（ボディ、クエリパラメータ、URLパラメータ）を検証する関数
+// 見つかったすべての項目のエラーを返します
+const validatePart = (
+  part: "body" | "query" | "params",
+  source: unknown,
+  schema: Schema,
+): FieldError[] => {
+  // ボディは省略された場合（Content-Typeがない場合など）を空のオブジェクトとして扱います
+  const values = source ?? {};
+  if (typeof values !== "object" || Array.isArray(values)) {
+    return [{ field: part, message: "JSONオブジェクトで指定してください" }];
+  }
+  return Object.entries(schema).flatMap(([key, rule]) => {
+    const message = validateField(
+      (values as Record<string, unknown>)[key],
+      rule,
+      rule.label ?? key,
+    );
+    return message ? [{ field: `${part}.${key}`, message }] : [];
+  });
+};
+
+// 入力値検証ミドルウェアを作成する関数
+// ボディを検証する場合は、express.json()の後に使用します
+// 例: router.post("/send-message", express.json(), validate({ body: { message: { type: "string", required: true } } }), sendMessage)
+export const validate =
+  (schema: RequestSchema) =>
+  (req: Request, _res: Response, next: NextFunction): void => {
+    const errors = [
+      ...(schema.params
+        ? validatePart("params", req.params, schema.params)
+        : []),
+      ...(schema.query ? validatePart("query", req.query, schema.query) : []),
+      ...(schema.body ? validatePart("body", req.body, schema.body) : []),
+    ];
+    if (errors.length > 0) {
+      // エラーハンドラーが共通の形式のエラーレスポンスを返します
+      // メッセージには最初のエラーを使用し、すべてのエラーをdetailsに含めます
+      next(createApiError(400, "VALIDATION_ERROR", errors[0].message, errors));
+      return;
+    }
+    next();
+  };
@@ -0,0 +1,151 @@
+// APIキーモデル
+// このファイルはサーバー間でメッセージを送信するためのAPIキーの発行・認証・失効を提供します
+// CIジョブや他のサービスは、ユーザーとしてログインする代わりにX-API-KeyヘッダーでAPIキーを送信します
+//
+// キーそのものは発行時のレスポンスでのみ返し、保存するのはSHA-256のハッシュ値のみです
+// APIキーはランダムな長い値のため、パスワードと異なりbcryptのような低速なハッシュは必要ありません
+// （リクエストごとの認証でハッシュ値による検索ができます）
+import { createHash, randomBytes } from "crypto";
+// APIキーストアの設定と役割の型をインポートします
+import { API_KEY_STORE, API_KEY_STORE_FILE, Role } from "../config/index";
+// APIキーリポジトリのインターフェースと実装をインポートします
+import {
+  ApiKeyRepository,
+  createMemoryApiKeyRepository,
+} from "./apiKeyRepository";
+import { createFileApiKeyRepository } from "./fileApiKeyRepository";
+
+// APIキーの型定義
+// - id: APIキーの一意の識別子
+// - name: APIキーの名前（用途を表す名前。ログや送信者の表示に使用）
+// - prefix: キーの先頭部分（一覧でどのキーかを見分けるために使用します）
+// - hash: キーのSHA-256ハッシュ値
+// - channels: 送信できるチャンネル（nullの場合はすべてのチャンネル）
+// - eventTypes: 送信できるイベントの種類（nullの場合はすべての種類）
+// - createdBy: APIキーを発行した管理者のユーザー名
+// - createdAt: 発行日時（ISO形式）
+// - lastUsedAt: 最後に使用された日時（ISO形式。未使用の場合はnull）
+// - revokedAt: 失効させた日時（ISO形式。有効な場合はnull）
+export interface ApiKey {
+  id: number;
+  name: string;
+  prefix: string;
+  hash: string;
+  channels: string[] | null;
+  eventTypes: string[] | null;
+  createdBy: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+}
+
+// レスポンスとして返すAPIキーの情報の型定義
+// キーのハッシュ値は含めません
+export type PublicApiKey = Omit<ApiKey, "hash">;
+
+// APIキーで送信できるイベントの種類
+// - message: 一括送信（/send-message）と、ユーザー宛て送信（/users/:id/messages）
+// - partial-message: ストリーミング送信（/stream-message）
+export const API_KEY_EVENT_TYPES = ["message", "partial-message"] as const;
+
+// APIキーで認証されたリクエストの役割
+// APIキーはメッセージの送信にのみ使用できるため、publisherとして扱います
+// 受信に必要な役割（requiredRole）やチャンネルの権限も、この役割で判定します
+export const API_KEY_ROLE: Role = "publisher";
+
+// APIキーを送信するリクエストヘッダーの名前（Expressのヘッダー名は小文字）
+export const API_KEY_HEADER = "x-api-key";
+
+// キーの先頭に付ける文字列
+// ログや設定ファイルに誤って含まれた場合に、APIキーであることを見分けやすくします
+const KEY_PREFIX = "sse_";
+
+// 一覧に表示するキーの先頭部分の文字数（KEY_PREFIXを含みます）
+const DISPLAY_PREFIX_LENGTH = 12;
+
+// 設定に応じたAPIキーリポジトリを作成する関数
+// API_KEY_STORE=fileの場合はJSONファイルに、memoryの場合はメモリ内にAPIキーを保存します
+const createApiKeyRepository = (): ApiKeyRepository => {
+  if (API_KEY_STORE === "file") {
+    return createFileApiKeyRepository(API_KEY_STORE_FILE);
+  }
+  return createMemoryApiKeyRepository();
+};
+
+// アプリケーション全体で共有するAPIキーリポジトリ
+export const apiKeyRepository = createApiKeyRepository();
+
+// キーのハッシュ値を計算する関数
+const hashKey = (key: string): string => {
+  return createHash("sha256").update(key).digest("hex");
+};
+
+// APIキーをレスポンス用の形式に変換する関数
+// キーのハッシュ値を取り除きます
+export const toPublicApiKey = (apiKey: ApiKey): PublicApiKey => ({
+  id: apiKey.id,
+  name: apiKey.name,
+  prefix: apiKey.prefix,
+  channels: apiKey.channels,
+  eventTypes: apiKey.eventTypes,
+  createdBy: apiKey.createdBy,
+  createdAt: apiKey.createdAt,
+  lastUsedAt: apiKey.lastUsedAt,
+  revokedAt: apiKey.revokedAt,
+});
+
+// APIキーを発行する関数
+// 戻り値のkeyは発行時にのみ取得できるキーそのものです。サーバーには保存されません
+export const issueApiKey = (options: {
+  name: string;
+  channels: string[] | null;
+  eventTypes: string[] | null;
+  createdBy: string;
+}): { apiKey: ApiKey; key: string } => {
+  const key = `${KEY_PREFIX}${randomBytes(32).toString("base64url")}`;
+  const apiKey = apiKeyRepository.create({
+    ...options,
+    prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+    hash: hashKey(key),
+    createdAt: new Date().toISOString(),
+    lastUsedAt: null,
+    revokedAt: null,
+  });
+  return { apiKey, key };
+};
+
+// APIキーを認証する関数
+// 有効なAPIキーの場合は最終使用日時を更新してAPIキーを返します
+// 存在しないキーや失効したキーの場合はnullを返します
+export const authenticateApiKey = (key: string): ApiKey | null => {
+  const apiKey = apiKeyRepository.findByHash(hashKey(key));
+  if (!apiKey || apiKey.revokedAt !== null) {
+    return null;
+  }
+  return (
+    apiKeyRepository.update(apiKey.id, {
+      lastUsedAt: new Date().toISOString(),
+    }) ?? null
+  );
+};
+
+// APIキーを失効させる関数
+// 失効したAPIキーは記録のため一覧に残り、以降の認証ではすべて拒否されます
+// APIキーが存在しない場合はundefinedを返します（すでに失効している場合はそのまま返します）
+export const revokeApiKey = (id: number): ApiKey | undefined => {
+  const apiKey = apiKeyRepository.findById(id);
+  if (!apiKey || apiKey.revokedAt !== null) {
+    return apiKey;
+  }
+  return apiKeyRepository.update(id, { revokedAt: new Date().toISOString() });
+};
+
+// APIキーがイベントの種類を送信できるかどうかを確認する関数
+export const canSendEventType = (apiKey: ApiKey, type: string): boolean => {
+  return apiKey.eventTypes === null || apiKey.eventTypes.includes(type);
+};
+
+// APIキーがチャンネルに送信できるかどうかを確認する関数
+export const canSendToChannel = (apiKey: ApiKey, channel: string): boolean => {
+  return apiKey.channels === null || apiKey.channels.includes(channel);
+};
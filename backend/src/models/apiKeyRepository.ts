@@ -0,0 +1,86 @@
+// APIキーリポジトリモデル
+// このファイルはAPIキーの保存先（APIキーリポジトリ）のインターフェースとメモリ内実装を定義します
+// ユーザーリポジトリと同じく、保存先を差し替えることでサーバー再起動後もAPIキーを使い続けられます
+import { ApiKey } from "./apiKey";
+
+// 新しく作成するAPIキーの型定義
+// IDはリポジトリが採番します
+export type NewApiKey = Omit<ApiKey, "id">;
+
+// 更新できるAPIキーの情報の型定義
+// - lastUsedAt: 最後に使用された日時
+// - revokedAt: 失効させた日時
+export type ApiKeyChanges = Partial<Pick<ApiKey, "lastUsedAt" | "revokedAt">>;
+
+// 永続ストアに保存される状態の型定義
+// - lastId: 最後に採番されたAPIキーID
+// - apiKeys: 発行されたAPIキー（失効したAPIキーを含みます）
+export interface PersistedApiKeys {
+  lastId: number;
+  apiKeys: ApiKey[];
+}
+
+// APIキーリポジトリのインターフェース
+// メモリ内リポジトリとファイルリポジトリはどちらもこのインターフェースを実装します
+export interface ApiKeyRepository {
+  // キーのハッシュ値でAPIキーを検索します
+  findByHash(hash: string): ApiKey | undefined;
+  // IDでAPIキーを検索します
+  findById(id: number): ApiKey | undefined;
+  // 発行されたすべてのAPIキーをID順に返します
+  list(): ApiKey[];
+  // APIキーを作成します
+  create(apiKey: NewApiKey): ApiKey;
+  // APIキーの情報を更新します。APIキーが存在しない場合はundefinedを返します
+  update(id: number, changes: ApiKeyChanges): ApiKey | undefined;
+  // 保持しているすべてのAPIキーと最後に採番されたIDを返します
+  snapshot(): PersistedApiKeys;
+}
+
+// メモリ内APIキーリポジトリを作成する関数
+// サーバーのメモリ上にAPIキーを保持します。サーバーを再起動するとすべてのAPIキーが失われます
+// initialは永続ストアから復元した状態を渡すために使用します
+export const createMemoryApiKeyRepository = (
+  initial: PersistedApiKeys = { lastId: 0, apiKeys: [] },
+): ApiKeyRepository => {
+  // IDをキーとするAPIキー
+  const apiKeys = new Map<number, ApiKey>();
+  // キーのハッシュ値からAPIキーIDへの索引（リクエストごとの認証で使用します）
+  const idsByHash = new Map<string, number>();
+  // 最後に採番されたAPIキーID
+  let lastId = initial.lastId;
+
+  initial.apiKeys.forEach((apiKey) => {
+    apiKeys.set(apiKey.id, { ...apiKey });
+    idsByHash.set(apiKey.hash, apiKey.id);
+    lastId = Math.max(lastId, apiKey.id);
+  });
+
+  const list = (): ApiKey[] =>
+    [...apiKeys.values()].sort((a, b) => a.id - b.id);
+
+  return {
+    findByHash: (hash) => {
+      const id = idsByHash.get(hash);
+      return id !== undefined ? apiKeys.get(id) : undefined;
+    },
+    findById: (id) => apiKeys.get(id),
+    list,
+    create: (apiKey) => {
+      const created = { id: ++lastId, ...apiKey };
+      apiKeys.set(created.id, created);
+      idsByHash.set(created.hash, created.id);
+      return created;
+    },
+    update: (id, changes) => {
+      const apiKey = apiKeys.get(id);
+      if (!apiKey) {
+        return undefined;
+      }
+      const updated = { ...apiKey, ...changes };
+      apiKeys.set(id, updated);
+      return updated;
+    },
+    snapshot: () => ({ lastId, apiKeys: list() }),
+  };
+};
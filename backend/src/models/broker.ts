@@ -0,0 +1,61 @@
+// ブローカーモデル
+// このファイルは複数のバックエンドインスタンス間でイベントを中継するブローカー（Pub/Sub）の
+// インターフェースとメモリ内実装を定義します
+// ロードバランサーの背後で複数のインスタンスを動かす場合、インスタンスAに送信されたメッセージを
+// インスタンスBに接続しているクライアントにも届けるために使用します
+import { Event, TransientEvent } from "./event";
+
+// ブローカーで中継されるメッセージの型定義
+// - origin: イベントを発行したインスタンスのID（自分が発行したメッセージを無視するために使用）
+// - event: 中継するイベント（IDはnextEventId()で採番済み。保存しないイベントはIDを持ちません）
+export interface BrokerMessage {
+  origin: string;
+  event: Event | TransientEvent;
+}
+
+// ブローカーのインターフェース
+// メモリ内ブローカーとRedisブローカーはどちらもこのインターフェースを実装します
+export interface Broker {
+  // ブローカーに接続し、受信したメッセージをhandlerに渡します
+  connect(handler: (message: BrokerMessage) => void): Promise<void>;
+  // メッセージをすべてのインスタンスに発行します
+  publish(message: BrokerMessage): void;
+  // すべてのインスタンスで一意なイベントIDを採番します
+  // IDは採番した順に大きくなるため、どのインスタンスで発行されたイベントもID順に再送できます
+  nextEventId(): Promise<number>;
+  // ブローカーとの接続を閉じます
+  close(): Promise<void>;
+}
+
+// 同じプロセス内のメモリ内ブローカーが共有する購読者の一覧
+const memorySubscribers = new Set<(message: BrokerMessage) => void>();
+
+// メモリ内ブローカーを作成する関数
+// 同じプロセス内のブローカー同士でのみメッセージを中継します
+// 単一インスタンスで動かす場合や、Redisを用意せずに動作を確認する場合に使用します
+// nextIdはイベントストアの採番関数です。インスタンスが1つしかないため、ストアの採番がそのまま一意になります
+export const createMemoryBroker = (nextId: () => number): Broker => {
+  let subscriber: ((message: BrokerMessage) => void) | null = null;
+
+  return {
+    connect: async (handler) => {
+      subscriber = handler;
+      memorySubscribers.add(handler);
+    },
+    publish: (message) => {
+      // Redisブローカーと同様に、シリアライズしたメッセージを
+      // 呼び出し元の処理が終わった後に非同期で配信します
+      const payload = JSON.stringify(message);
+      memorySubscribers.forEach((handler) => {
+        Promise.resolve().then(() => handler(JSON.parse(payload)));
+      });
+    },
+    nextEventId: async () => nextId(),
+    close: async () => {
+      if (subscriber) {
+        memorySubscribers.delete(subscriber);
+        subscriber = null;
+      }
+    },
+  };
+};
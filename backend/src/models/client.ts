@@ -1,51 +1,250 @@
 // SSE（Server-Sent Events）クライアントモデル
 // このファイルはSSE接続中のクライアントの管理を担当します
 import { Response } from "express";
+// クライアントIDの採番に使用します
+import { randomUUID } from "crypto";
+// チャンネル名の検証に使用する設定をインポートします
+import { DEFAULT_CHANNEL, CHANNEL_NAME_PATTERN } from "../config/index";
+// 接続数と接続時間のメトリクスをインポートします
+import {
+  sseConnectedClients,
+  sseConnectionsOpenedTotal,
+  sseConnectionsClosedTotal,
+  sseConnectionDurationSeconds,
+} from "../utils/metrics";
 
 // クライアントの型定義
 // SSE接続中の各クライアントは以下の情報を持ちます：
-// - id: クライアントの一意の識別子（通常はタイムスタンプ）
+// - id: クライアントの一意の識別子（UUID）
 // - res: Expressのレスポンスオブジェクト（イベント送信に使用）
 // - user: 認証済みクライアントの場合のユーザー情報（オプション）
+//   sidはログインのセッションIDで、ログアウト時にそのセッションの接続を閉じるために使用します
+// - channels: クライアントが購読しているチャンネル名の集合
+// - endpoint: 接続したSSEエンドポイントのパス（メトリクスの集計に使用）
+// - ip: 接続元のIPアドレス
+// - userAgent: 接続元のUser-Agentヘッダー
+// - connectedAt: 接続を確立した時刻（UNIXタイムスタンプ、接続時間の計算に使用）
+// - lastEventId: 最後に送信したイベントのID（まだ送信していない場合はnull）
+// - bytesSent: ソケットへの書き込みが完了したデータの合計バイト数
+// - eventsSent: 送信したイベントの数（ハートビートは含みません）
+// - failedWrites: 連続した書き込み失敗の回数（切断検出に使用）
+// - queue: ソケットの送信バッファが空くのを待っているフレーム（バックプレッシャー制御に使用）
+// - queuedBytes: queueに保持しているデータの合計バイト数
+// - awaitingDrain: ソケットの送信バッファが空くのを待っているかどうか
 export interface Client {
-  id: number;
+  id: string;
   res: Response;
-  user?: { id: number; username: string; role: string };
+  user?: { id: number; username: string; role: string; sid?: string };
+  channels: Set<string>;
+  endpoint: string;
+  ip: string;
+  userAgent: string;
+  connectedAt: number;
+  lastEventId: number | null;
+  bytesSent: number;
+  eventsSent: number;
+  failedWrites: number;
+  queue: QueuedFrame[];
+  queuedBytes: number;
+  awaitingDrain: boolean;
 }
 
-// クライアント接続を保持する配列
-// 現在接続中のすべてのクライアントを追跡します
-// この配列はイベント送信時に使用され、すべての接続クライアントにイベントを配信します
-export const clients: Client[] = [];
+// 送信待ちフレームの型定義
+// - frame: SSEプロトコルに準拠したフォーマットのデータ
+// - type: イベントの種類（破棄してよいかの判定に使用）
+// - bytes: フレームのバイト数
+// - eventId: イベントストアに保存されたイベントの場合のイベントID（オプション）
+// - heartbeat: ハートビートかどうか（送信イベント数に含めないために使用）
+export interface QueuedFrame {
+  frame: string;
+  type: string;
+  bytes: number;
+  eventId?: number;
+  heartbeat?: boolean;
+}
+
+// 新しいクライアントの型定義
+// 接続時に決まる情報のみを持ち、IDと送信状態はaddClientで初期化されます
+export type NewClient = Pick<
+  Client,
+  "res" | "user" | "channels" | "endpoint" | "ip" | "userAgent"
+>;
+
+// 接続中のクライアントを保持するレジストリ
+// クライアントIDをキーとするMapで、追加・削除・検索をO(1)で行えます
+const registry = new Map<string, Client>();
+// チャンネル名ごとの購読者の索引
+// ブロードキャスト時にすべてのクライアントを走査せずに購読者を取得するために使用します
+const channelIndex = new Map<string, Set<Client>>();
+// ユーザーIDごとの接続の索引
+// ユーザー宛てのイベントを配信する際に使用します
+const userIndex = new Map<number, Set<Client>>();
+// 接続元IPアドレスごとの接続の索引
+// IPアドレスごとの接続数の上限チェックに使用します
+const ipIndex = new Map<string, Set<Client>>();
+
+// 索引にクライアントを追加する関数
+const addToIndex = <K>(
+  index: Map<K, Set<Client>>,
+  key: K,
+  client: Client,
+): void => {
+  let entries = index.get(key);
+  if (!entries) {
+    entries = new Set();
+    index.set(key, entries);
+  }
+  entries.add(client);
+};
+
+// 索引からクライアントを削除する関数
+// 空になった集合は索引から取り除きます
+const removeFromIndex = <K>(
+  index: Map<K, Set<Client>>,
+  key: K,
+  client: Client,
+): void => {
+  const entries = index.get(key);
+  if (!entries) {
+    return;
+  }
+  entries.delete(client);
+  if (entries.size === 0) {
+    index.delete(key);
+  }
+};
+
+// メトリクスのラベルを作成する関数
+// エンドポイントと認証状態ごとに接続数を集計します
+const metricLabels = (client: Client) => ({
+  endpoint: client.endpoint,
+  authenticated: String(client.user !== undefined),
+});
 
 // クライアントを追加する関数
 // 新しいSSE接続が確立されたときに呼び出されます
-// クライアント情報をグローバルな配列に追加します
-export const addClient = (client: Client): void => {
-  // クライアントをクライアント配列の末尾に追加します
-  clients.push(client);
+// 衝突しないUUIDをクライアントIDとして採番し、レジストリと索引に登録します
+// 戻り値はIDと送信状態を初期化したクライアントです
+export const addClient = (client: NewClient): Client => {
+  const created: Client = {
+    ...client,
+    id: randomUUID(),
+    connectedAt: Date.now(),
+    lastEventId: null,
+    bytesSent: 0,
+    eventsSent: 0,
+    failedWrites: 0,
+    queue: [],
+    queuedBytes: 0,
+    awaitingDrain: false,
+  };
+  registry.set(created.id, created);
+  created.channels.forEach((channel) =>
+    addToIndex(channelIndex, channel, created),
+  );
+  if (created.user) {
+    addToIndex(userIndex, created.user.id, created);
+  }
+  addToIndex(ipIndex, created.ip, created);
+  sseConnectedClients.inc(metricLabels(created));
+  sseConnectionsOpenedTotal.inc({ endpoint: created.endpoint });
+  return created;
 };
 
 // クライアントを削除する関数
 // クライアントが切断したときに呼び出されます
-// 指定されたIDを持つクライアントをグローバルな配列から削除します
-export const removeClient = (clientId: number): void => {
-  // 指定されたIDを持つクライアントのインデックスを検索します
-  const index = clients.findIndex((client) => client.id === clientId);
-  // クライアントが見つかった場合（インデックスが-1でない場合）
-  if (index !== -1) {
-    // 配列からクライアントを削除します
-    // splice(index, 1)は、指定されたインデックスから1つの要素を削除します
-    clients.splice(index, 1);
+// 指定されたIDを持つクライアントをレジストリと索引から削除します
+// 戻り値は削除したクライアントで、すでに削除されている場合はundefinedです
+export const removeClient = (clientId: string): Client | undefined => {
+  const client = registry.get(clientId);
+  if (!client) {
+    return undefined;
+  }
+  registry.delete(clientId);
+  client.channels.forEach((channel) =>
+    removeFromIndex(channelIndex, channel, client),
+  );
+  if (client.user) {
+    removeFromIndex(userIndex, client.user.id, client);
   }
+  removeFromIndex(ipIndex, client.ip, client);
+  sseConnectedClients.dec(metricLabels(client));
+  sseConnectionsClosedTotal.inc({ endpoint: client.endpoint });
+  sseConnectionDurationSeconds.observe(
+    { endpoint: client.endpoint },
+    (Date.now() - client.connectedAt) / 1000,
+  );
+  return client;
 };
 
 // クライアントを検索する関数
-// 指定されたIDを持つクライアントを検索します
-// 特定のクライアントにのみイベントを送信する場合などに使用できます
-export const findClient = (clientId: number): Client | undefined => {
-  // 指定されたIDを持つクライアントを配列から検索します
-  // 見つかった場合はそのクライアントオブジェクトを返し、
-  // 見つからない場合はundefinedを返します
-  return clients.find((client) => client.id === clientId);
+// 指定されたIDを持つクライアントを返し、見つからない場合はundefinedを返します
+export const findClient = (clientId: string): Client | undefined => {
+  return registry.get(clientId);
+};
+
+// 接続中のすべてのクライアントを取得する関数
+// ハートビートの送信やシャットダウン時の通知など、すべての接続を対象とする処理に使用します
+export const getClients = (): Client[] => {
+  return [...registry.values()];
+};
+
+// 接続中のクライアント数を返す関数
+// 接続数の上限チェックに使用します
+export const getClientCount = (): number => {
+  return registry.size;
+};
+
+// チャンネル名を検証する関数
+// 許可された文字のみで構成されている場合にtrueを返します
+export const isValidChannelName = (channel: string): boolean => {
+  return CHANNEL_NAME_PATTERN.test(channel);
+};
+
+// 購読チャンネルを解析する関数
+// ?channels=alerts,orders 形式のクエリパラメータをチャンネル名の配列に変換します
+// 指定がない場合はデフォルトチャンネルのみを購読します
+// 不正なチャンネル名が含まれている場合はnullを返します
+export const parseChannels = (value: unknown): string[] | null => {
+  // クエリパラメータが指定されていない場合はデフォルトチャンネルを使用します
+  if (value === undefined || value === "") {
+    return [DEFAULT_CHANNEL];
+  }
+  // 文字列以外（?channels=a&channels=b など）は受け付けません
+  if (typeof value !== "string") {
+    return null;
+  }
+
+  // カンマで分割し、前後の空白と空要素を取り除きます
+  const channels = value
+    .split(",")
+    .map((channel) => channel.trim())
+    .filter((channel) => channel.length > 0);
+
+  // すべてのチャンネル名が有効かどうかを確認します
+  if (channels.length === 0 || !channels.every(isValidChannelName)) {
+    return null;
+  }
+
+  // 重複を取り除いて返します
+  return [...new Set(channels)];
+};
+
+// チャンネルの購読者を取得する関数
+// 指定されたチャンネルを購読しているクライアントの一覧を返します
+export const getChannelSubscribers = (channel: string): Client[] => {
+  return [...(channelIndex.get(channel) ?? [])];
+};
+
+// ユーザーの接続を取得する関数
+// 指定されたユーザーIDで認証されたすべての接続（複数タブなど）を返します
+// 特定のユーザーにのみイベントを送信する場合に使用します
+export const getUserClients = (userId: number): Client[] => {
+  return [...(userIndex.get(userId) ?? [])];
+};
+
+// 接続元IPアドレスの接続を取得する関数
+// 指定されたIPアドレスから確立されたすべての接続を返します
+export const getIpClients = (ip: string): Client[] => {
+  return [...(ipIndex.get(ip) ?? [])];
 };
@@ -1,75 +1,673 @@
 // SSE（Server-Sent Events）イベントモデル
 // このファイルはSSEイベントの送信と過去イベントの管理を担当します
-import { Response } from "express";
-// キャッシュサイズの上限を設定ファイルから読み込みます
-// これにより、メモリ使用量を制限します
-import { MAX_CACHE_SIZE } from "../config/index";
+// キャッシュサイズの上限とイベントストアの設定を設定ファイルから読み込みます
+// これにより、メモリ使用量と保存期間を制限します
+// ハートビートと切断検出の設定も読み込みます
+import {
+  MAX_CACHE_SIZE,
+  EVENT_STORE,
+  EVENT_STORE_FILE,
+  EVENT_RETENTION_MS,
+  DEFAULT_CHANNEL,
+  BROKER,
+  REDIS_URL,
+  BROKER_CHANNEL,
+  INSTANCE_ID,
+  HEARTBEAT_INTERVAL_MS,
+  HEARTBEAT_MODE,
+  MAX_WRITE_FAILURES,
+  CLIENT_BUFFER_LIMIT_BYTES,
+  SLOW_CONSUMER_POLICY,
+  NON_CRITICAL_EVENT_TYPES,
+  Role,
+} from "../config/index";
+// イベントを受信できる接続かどうかの判定に使用する関数をインポートします
+import { hasRole, higherRole, getChannelRole } from "./permission";
+// チャンネル購読者を取得する関数をインポートします
+// ブロードキャスト時にチャンネルを購読しているクライアントへイベントを配信するために使用します
+// getUserClientsは特定のユーザーの接続へイベントを配信するために使用します
+// getClientsとremoveClientはハートビートの送信と切断済みクライアントの削除に使用します
+import {
+  Client,
+  QueuedFrame,
+  getClients,
+  removeClient,
+  getChannelSubscribers,
+  getUserClients,
+} from "./client";
+// イベントストアの実装をインポートします
+// 設定に応じてメモリ内ストアまたはファイルストアを使用します
+import { EventStore, createMemoryEventStore } from "./eventStore";
+import { createFileEventStore } from "./fileEventStore";
+// ブローカーの実装をインポートします
+// 設定に応じてメモリ内ブローカーまたはRedisブローカーを使用します
+import { Broker, BrokerMessage, createMemoryBroker } from "./broker";
+import { createRedisBroker } from "./redisBroker";
+// 配信エラーをログに記録するための関数をインポートします
+// 低速クライアントへの対応はlogSlowConsumerで記録します
+import {
+  logError,
+  logInfo,
+  logWarning,
+  logSlowConsumer,
+} from "../utils/logger";
+// 送信したイベント数とバイト数のメトリクスをインポートします
+import {
+  sseEventsSentTotal,
+  sseEventsReplayedTotal,
+  sseBytesWrittenTotal,
+} from "../utils/metrics";
+import { Buffer } from "buffer";
+// IDを採番できない場合のエラーを作成する関数をインポートします
+import { createApiError } from "../utils/errors";
+
+// Node.jsのsetIntervalとclearIntervalを明示的に型定義
+// TypeScriptの型チェックのために必要です
+declare const setInterval: (callback: () => void, ms: number) => number;
+declare const clearInterval: (intervalId: number) => void;
 
 // イベントの型定義
 // SSEイベントは以下の要素で構成されます：
-// - id: イベントの一意の識別子（連番）
+// - id: イベントの一意の識別子（すべてのインスタンスで共有される連番）
 // - type: イベントの種類（'message', 'system'など）
 // - data: イベントのデータ（任意のJSONオブジェクト）
+// - channel: イベントが配信されたチャンネル名
+// - userId: 特定のユーザー宛てのイベントの場合の宛先ユーザーID（オプション）
+// - requiredRole: イベントを受信するために必要な役割（オプション）
+//   指定されている場合は、その役割以上のユーザーの接続にのみ配信・再送されます
+// - createdAt: イベントの作成時刻（UNIXタイムスタンプ、保持期間の判定に使用）
 export interface Event {
   id: number;
   type: string;
   data: Record<string, unknown>;
+  channel?: string;
+  userId?: number;
+  requiredRole?: Role;
+  createdAt: number;
 }
 
-// 過去のイベントを保存するキャッシュ
-// これは再接続時に失われたイベントを再送するために使用されます
-// クライアントが切断している間に送信されたイベントを追跡します
-export const eventCache: Event[] = [];
-// グローバルなイベントIDカウンター
-// 各イベントに一意のIDを割り当てるために使用されます
-export let eventId = 0;
+// 保存しないイベントの型定義
+// IDを持たず、イベントストアに保存されないため、再接続時に再送されることはありません
+export type TransientEvent = Omit<Event, "id">;
 
-// イベント送信関数
-// この関数はSSEプロトコルに準拠したフォーマットでイベントを送信します
+// イベントストアに保存するイベント（IDを持つイベント）かどうかを確認する関数
+const isStoredEvent = (event: Event | TransientEvent): event is Event => {
+  return typeof (event as Event).id === "number";
+};
+
+// イベントストアを作成する関数
+// 過去のイベントはイベントストアに保存され、再接続時に失われたイベントを再送するために使用されます
+// チャンネルとユーザーごとに上限を設けることで、流量の多いチャンネルが他の履歴を押し出さないようにします
+// IDはストア全体で単調増加するため、1つのLast-Event-IDで複数チャンネルの再送が可能です
+const createEventStore = (): EventStore => {
+  const options = {
+    maxEventsPerStream: MAX_CACHE_SIZE,
+    maxAgeMs: EVENT_RETENTION_MS,
+  };
+  // ファイルストアはサーバー再起動後もイベントとIDを復元します
+  if (EVENT_STORE === "file") {
+    return createFileEventStore(EVENT_STORE_FILE, options);
+  }
+  return createMemoryEventStore(options);
+};
+
+// アプリケーション全体で使用するイベントストア
+export const eventStore = createEventStore();
+
+// ブローカーを作成する関数
+// ブローカーを通じてイベントを発行することで、他のインスタンスに接続しているクライアントにも配信されます
+// イベントIDもブローカーが採番するため、複数のインスタンスで同じIDが使われることはありません
+const createBroker = (): Broker => {
+  if (BROKER === "redis") {
+    return createRedisBroker(REDIS_URL, BROKER_CHANNEL, () =>
+      eventStore.lastId(),
+    );
+  }
+  return createMemoryBroker(() => eventStore.nextId());
+};
+
+// アプリケーション全体で使用するブローカー
+export const broker = createBroker();
+
+// SSEフレームを組み立てる関数
 // SSEイベントは以下の形式で送信されます：
 // id: イベントID
 // event: イベントタイプ
 // data: JSONデータ
 // 空行（\n\n）でイベントの終わりを示します
+export const formatEvent = (
+  id: number,
+  type: string,
+  data: Record<string, unknown>,
+): string => {
+  // クライアントはidを保存し、再接続時にLast-Event-IDヘッダーで送信します
+  // クライアントはeventの値に基づいてイベントハンドラーを選択できます
+  // dataはJSON文字列として送信され、クライアントはJSON.parse()で解析できます
+  return `id: ${id}\nevent: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+};
+
+// 書き込み失敗を記録する関数
+// 連続した失敗回数が上限に達したクライアントは切断済みとみなし、クライアントリストから削除します
+// これにより、30分のタイムアウトを待たずに死んだ接続を解放できます
+const recordWriteFailure = (client: Client, error?: unknown): void => {
+  client.failedWrites++;
+  logError(
+    `イベント配信エラー - クライアントID: ${client.id} - 連続失敗回数: ${client.failedWrites}`,
+    error,
+  );
+
+  if (client.failedWrites >= MAX_WRITE_FAILURES) {
+    logWarning(
+      `切断済みクライアントを削除 - クライアントID: ${client.id} - 連続失敗回数: ${client.failedWrites}`,
+    );
+    removeClient(client.id);
+    // ソケットを確実に解放します
+    client.res.destroy();
+  }
+};
+
+// クライアントの送信待ちデータのバイト数を返す関数
+// 独自のキューに保持しているデータと、Node.jsのソケットバッファに溜まっているデータの合計です
+// 管理APIで接続の状態を表示するためにも使用します
+export const bufferedBytes = (client: Client): number => {
+  return client.queuedBytes + client.res.writableLength;
+};
+
+// 送信するフレームを作成する関数
+// バイト数はキューの管理と送信量の集計に使用するため、作成時に1回だけ計算します
+const createFrame = (
+  frame: string,
+  type: string,
+  options: Pick<QueuedFrame, "eventId" | "heartbeat"> = {},
+): QueuedFrame => {
+  return { frame, type, bytes: Buffer.byteLength(frame), ...options };
+};
+
+// ソケットにフレームを書き込む関数
+// 戻り値はres.writeの戻り値で、falseの場合はソケットの送信バッファが一杯であることを示します
+const writeNow = (client: Client, queued: QueuedFrame): boolean => {
+  return client.res.write(queued.frame, (error) => {
+    // 書き込みの完了時に結果を確認します
+    // 成功した場合は連続失敗回数をリセットし、送信量を集計します
+    if (error) {
+      recordWriteFailure(client, error);
+      return;
+    }
+    client.failedWrites = 0;
+    client.bytesSent += queued.bytes;
+    sseBytesWrittenTotal.inc({}, queued.bytes);
+    if (!queued.heartbeat) {
+      client.eventsSent++;
+      sseEventsSentTotal.inc({ type: queued.type });
+    }
+    if (queued.eventId !== undefined) {
+      client.lastEventId = queued.eventId;
+    }
+  });
+};
+
+// キューに溜まったフレームを送信する関数
+// ソケットの送信バッファが空いた（'drain'イベント）ときに呼び出されます
+const flushQueue = (client: Client): void => {
+  client.awaitingDrain = false;
+  while (client.queue.length > 0) {
+    const next = client.queue.shift() as QueuedFrame;
+    client.queuedBytes -= next.bytes;
+    if (!writeNow(client, next)) {
+      // 再び一杯になった場合は、次に空くのを待ちます
+      waitForDrain(client);
+      return;
+    }
+  }
+};
+
+// ソケットの送信バッファが空くのを待つ関数
+const waitForDrain = (client: Client): void => {
+  client.awaitingDrain = true;
+  client.res.once("drain", () => flushQueue(client));
+};
+
+// クライアントの接続を閉じる関数
+// 送信待ちのフレームを破棄し、最後のイベントで理由を通知してから接続を閉じます
+const endClient = (
+  client: Client,
+  type: string,
+  data: Record<string, unknown>,
+): void => {
+  client.queue = [];
+  client.queuedBytes = 0;
+  removeClient(client.id);
+  client.res.end(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+// 低速クライアントを切断する関数
+// 'slow-consumer'イベントで理由を通知してから接続を閉じます
+const disconnectSlowConsumer = (client: Client): void => {
+  logSlowConsumer(client.id, "切断", bufferedBytes(client));
+  endClient(client, "slow-consumer", {
+    type: "error",
+    message: "受信が遅いため接続を切断しました",
+  });
+};
+
+// 接続数の上限によってクライアントを切断する関数
+// 同じユーザーの新しい接続を受け付けるため、最も古い接続を'connection-evicted'イベントで通知してから閉じます
+// クライアントはこのイベントを受け取った場合、再接続を行わずに接続を終了します
+// これにより、複数のタブが互いの接続を切断し合う再接続のループを防ぎます
+export const evictClient = (client: Client, reason: string): void => {
+  logInfo(
+    `クライアントを退去 - クライアントID: ${client.id} - 理由: ${reason}`,
+  );
+  endClient(client, "connection-evicted", { type: "warning", message: reason });
+};
+
+// クライアントを強制的に切断する関数
+// 管理APIから呼び出され、'disconnected'イベントで理由を通知してから接続を閉じます
+// EventSourceは切断後に自動的に再接続するため、固まった接続をやり直させる用途に使用できます
+export const disconnectClient = (client: Client, reason: string): void => {
+  logInfo(
+    `クライアントを切断 - クライアントID: ${client.id} - 理由: ${reason}`,
+  );
+  endClient(client, "disconnected", { type: "warning", message: reason });
+};
+
+// セッションの終了によってクライアントを切断する関数
+// ログアウトによってセッションが失効した場合に、'session-ended'イベントで理由を通知してから接続を閉じます
+// クライアントはこのイベントを受け取った場合、再接続を行わずに保存している認証情報を削除します
+export const endClientSession = (client: Client, reason: string): void => {
+  logInfo(
+    `セッション終了によりクライアントを切断 - クライアントID: ${client.id} - 理由: ${reason}`,
+  );
+  endClient(client, "session-ended", { type: "info", message: reason });
+};
+
+// 送信待ちのデータが上限を超えたクライアントに設定された対応を行う関数
+// 戻り値はクライアントが接続を維持しているかどうかです
+const applySlowConsumerPolicy = (client: Client): boolean => {
+  const before = client.queue.length;
+
+  switch (SLOW_CONSUMER_POLICY) {
+    case "drop-oldest":
+      // 上限を下回るまで古いフレームから破棄します
+      while (
+        client.queue.length > 0 &&
+        bufferedBytes(client) > CLIENT_BUFFER_LIMIT_BYTES
+      ) {
+        const dropped = client.queue.shift() as QueuedFrame;
+        client.queuedBytes -= dropped.bytes;
+      }
+      logSlowConsumer(
+        client.id,
+        `古いイベントを${before - client.queue.length}件破棄`,
+        bufferedBytes(client),
+      );
+      return true;
+
+    case "drop-non-critical":
+      // 重要でないフレームを破棄します
+      client.queue = client.queue.filter(
+        (queued) => !NON_CRITICAL_EVENT_TYPES.includes(queued.type),
+      );
+      client.queuedBytes = client.queue.reduce(
+        (total, queued) => total + queued.bytes,
+        0,
+      );
+      logSlowConsumer(
+        client.id,
+        `重要でないイベントを${before - client.queue.length}件破棄`,
+        bufferedBytes(client),
+      );
+      // それでも上限を超える場合は切断します
+      if (bufferedBytes(client) > CLIENT_BUFFER_LIMIT_BYTES) {
+        disconnectSlowConsumer(client);
+        return false;
+      }
+      return true;
+
+    case "disconnect":
+      disconnectSlowConsumer(client);
+      return false;
+  }
+};
+
+// 1つのクライアントにフレームを書き込む関数
+// ソケットの送信バッファが一杯の場合はキューに溜め、空いたときに送信します
+// 送信待ちのデータが上限を超えた場合は、設定された低速クライアントへの対応を行います
+// ソケットがすでに閉じている場合や書き込みでエラーが発生した場合は失敗として記録します
+// 戻り値はフレームを送信（または送信待ちに）できたかどうかです
+const writeToClient = (client: Client, queued: QueuedFrame): boolean => {
+  if (client.res.destroyed || client.res.writableEnded) {
+    recordWriteFailure(client);
+    return false;
+  }
+
+  try {
+    // 送信バッファが空くのを待っている間は、順序を保つためキューに追加します
+    if (client.awaitingDrain) {
+      client.queue.push(queued);
+      client.queuedBytes += queued.bytes;
+      if (bufferedBytes(client) > CLIENT_BUFFER_LIMIT_BYTES) {
+        return applySlowConsumerPolicy(client);
+      }
+      return true;
+    }
+
+    // res.writeがfalseを返した場合は、送信バッファが空くまで以降のフレームをキューに溜めます
+    if (!writeNow(client, queued)) {
+      waitForDrain(client);
+    }
+    return true;
+  } catch (error) {
+    recordWriteFailure(client, error);
+    return false;
+  }
+};
+
+// 同じフレームを複数の接続に書き込む関数
+// 戻り値は書き込みに成功した接続の数です
+const writeFrame = (targets: Client[], queued: QueuedFrame): number => {
+  let successCount = 0;
+  // 書き込み失敗によってクライアントリストが変更される可能性があるため、コピーに対して処理します
+  [...targets].forEach((client) => {
+    if (writeToClient(client, queued)) {
+      // 送信成功カウンターをインクリメントします
+      successCount++;
+    }
+  });
+  return successCount;
+};
+
+// イベント送信関数
+// この関数は単一のクライアントにSSEプロトコルに準拠したフォーマットでイベントを送信します
+// 接続確立メッセージなど、特定のクライアントだけに届けるイベントに使用します
+// 他のクライアントへ再送されないよう、このイベントはイベントストアに保存しません
+// 再送できないイベントでクライアントのLast-Event-IDが変化しないよう、idフィールドは付けません
 export const sendEvent = (
-  res: Response,
+  client: Client,
   type: string,
   data: Record<string, unknown>,
 ): void => {
-  // イベントIDをインクリメントして一意性を確保します
-  eventId++;
-  // イベントIDを送信します
-  // クライアントはこのIDを保存し、再接続時にLast-Event-IDヘッダーで送信します
-  res.write(`id: ${eventId}\n`);
-  // イベントタイプを送信します
-  // クライアントはこのタイプに基づいてイベントハンドラーを選択できます
-  res.write(`event: ${type}\n`);
-  // イベントデータをJSON文字列として送信します
-  // クライアントはこのデータをJSON.parse()で解析できます
-  res.write(`data: ${JSON.stringify(data)}\n\n`);
-
-  // イベントをキャッシュに保存
-  // 再接続時に失われたイベントを再送するために使用されます
-  eventCache.push({ id: eventId, type, data });
-
-  // キャッシュサイズの制限
-  // メモリ使用量を制限するために、キャッシュサイズが上限を超えた場合は
-  // 最も古いイベントを削除します（FIFO: First In, First Out）
-  if (eventCache.length > MAX_CACHE_SIZE) {
-    eventCache.shift(); // 最も古いイベントを削除
+  writeToClient(
+    client,
+    createFrame(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`, type),
+  );
+};
+
+// クライアントがイベントを受信できるかどうかを確認する関数
+// イベントに必要な役割が指定されている場合は、その役割以上のユーザーの接続のみが受信できます
+const canReceive = (client: Client, event: TransientEvent): boolean => {
+  return hasRole(client.user?.role, event.requiredRole);
+};
+
+// チャンネルの購読者のうち、broadcast(type, data, channel, requiredRole)のイベントを受信できる接続を返す関数
+// ストリーミング送信の開始前に、実際に受信できるクライアント数を確認するために使用します
+export const getEligibleSubscribers = (
+  channel: string,
+  requiredRole?: Role,
+): Client[] => {
+  const role = higherRole(getChannelRole(channel), requiredRole);
+  return getChannelSubscribers(channel).filter((client) =>
+    hasRole(client.user?.role, role),
+  );
+};
+
+// イベントをこのインスタンスのクライアントに配信する関数
+// ユーザー宛てのイベントはそのユーザーのすべての接続に、それ以外はチャンネルの購読者に配信します
+// 必要な役割を持たない接続には配信しません
+// IDを持たないイベントはidフィールドなしで送信するため、クライアントのLast-Event-IDは変化しません
+// 戻り値は送信に成功したクライアント数です
+const deliver = (event: Event | TransientEvent): number => {
+  // フレームは1回だけシリアライズし、すべてのクライアントで使い回します
+  const frame = isStoredEvent(event)
+    ? createFrame(formatEvent(event.id, event.type, event.data), event.type, {
+        eventId: event.id,
+      })
+    : createFrame(
+        `event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`,
+        event.type,
+      );
+  const targets =
+    event.userId !== undefined
+      ? getUserClients(event.userId)
+      : getChannelSubscribers(event.channel ?? DEFAULT_CHANNEL);
+  return writeFrame(
+    targets.filter((client) => canReceive(client, event)),
+    frame,
+  );
+};
+
+// イベントを発行する関数
+// ブローカーでIDを採番してイベントストアに保存し、このインスタンスのクライアントに配信したうえで、
+// ブローカーを通じて他のインスタンスにも中継します
+// IDを採番できない場合（Redisに接続できない場合など）は、イベントを保存・配信せずに503エラーにします
+// 戻り値はこのインスタンスで送信に成功したクライアント数です
+const publish = async (fields: Omit<Event, "id">): Promise<number> => {
+  // メッセージごとに1つだけイベントIDを採番します
+  let id: number;
+  try {
+    id = await broker.nextEventId();
+  } catch (error) {
+    logError("イベントIDの採番に失敗しました", error);
+    throw createApiError(
+      503,
+      "SERVICE_UNAVAILABLE",
+      "現在メッセージを送信できません。しばらくしてから再試行してください",
+    );
   }
+  const event: Event = { id, ...fields };
+  // イベントストアには1回だけ保存します
+  eventStore.append(event);
+  const successCount = deliver(event);
+  broker.publish({ origin: INSTANCE_ID, event });
+  return successCount;
+};
+
+// ブローカーから受信したメッセージを処理する関数
+// 他のインスタンスが発行したイベントをこのインスタンスのイベントストアに保存し、クライアントに配信します
+// 自分が発行したイベントは発行時に配信済みのため無視します
+const handleBrokerMessage = (message: BrokerMessage): void => {
+  if (message.origin === INSTANCE_ID) {
+    return;
+  }
+  // IDはすべてのインスタンスで共有されるカウンターで採番済みのため、受信したIDのまま保存します
+  // IDを持たないイベントは保存せずに配信のみ行います
+  if (isStoredEvent(message.event)) {
+    eventStore.append(message.event);
+  }
+  deliver(message.event);
+};
+
+// ブローカーに接続する関数
+// サーバー起動時に呼び出され、他のインスタンスからのイベントの受信を開始します
+export const connectBroker = async (): Promise<void> => {
+  await broker.connect(handleBrokerMessage);
+  logInfo(
+    `ブローカー接続完了 - 種類: ${BROKER} - インスタンス: ${INSTANCE_ID}`,
+  );
+};
+
+// ブロードキャスト関数
+// 1つの論理的なメッセージを、指定されたチャンネルを購読しているすべてのクライアントに配信します
+// フレームの組み立て、IDの採番、イベントストアへの保存はそれぞれ1回だけ行われます
+// これにより、受信者数に関係なく同じメッセージは同じイベントIDを持ち、
+// Last-Event-IDによる再送が複数タブ接続時でも正しく機能します
+// クライアントがどのチャンネルのイベントかを判別できるよう、データにはチャンネル名が含まれます
+// requiredRoleを指定した場合、またはチャンネルに役割が必要な場合（CHANNEL_ROLES）は、
+// その役割以上のユーザーの接続にのみ配信されます（両方ある場合は上位の役割が必要です）
+// 戻り値はこのインスタンスで送信に成功したクライアント数です
+export const broadcast = (
+  type: string,
+  data: Record<string, unknown>,
+  channel: string = DEFAULT_CHANNEL,
+  requiredRole?: Role,
+): Promise<number> => {
+  return publish({
+    type,
+    data: { ...data, channel },
+    channel,
+    requiredRole: higherRole(getChannelRole(channel), requiredRole),
+    createdAt: Date.now(),
+  });
+};
+
+// 保存しないブロードキャスト関数
+// ストリーミングの途中経過のように、完成した内容が後からbroadcastで保存されるイベントに使用します
+// IDを採番せずイベントストアにも保存しないため、チャンクの数だけ再送用の履歴が押し出されることはありません
+// 配信先の決め方と他のインスタンスへの中継はbroadcastと同じです
+// 戻り値はこのインスタンスで送信に成功したクライアント数です
+export const broadcastTransient = (
+  type: string,
+  data: Record<string, unknown>,
+  channel: string = DEFAULT_CHANNEL,
+  requiredRole?: Role,
+): number => {
+  const event: TransientEvent = {
+    type,
+    data: { ...data, channel },
+    channel,
+    requiredRole: higherRole(getChannelRole(channel), requiredRole),
+    createdAt: Date.now(),
+  };
+  const successCount = deliver(event);
+  broker.publish({ origin: INSTANCE_ID, event });
+  return successCount;
+};
+
+// ユーザー宛て送信関数
+// 1つのイベントを、指定されたユーザーのすべての接続（複数タブなど）に配信します
+// イベントはそのユーザーのストリームに保存され、再接続時もそのユーザーにのみ再送されます
+// 戻り値はこのインスタンスで送信に成功した接続の数です
+export const sendToUser = (
+  userId: number,
+  type: string,
+  data: Record<string, unknown>,
+): Promise<number> => {
+  return publish({
+    type,
+    data,
+    userId,
+    createdAt: Date.now(),
+  });
+};
+
+// ハートビートのタイマーID
+let heartbeatTimer: number | null = null;
+
+// ハートビートを送信する関数
+// 接続中のすべてのクライアントに、アイドル中でも接続を維持するためのデータを送信します
+// "comment"モードではSSEのコメント行を、"ping"モードではidを持たない'ping'イベントを送信します
+// どちらの形式もキャッシュされず、クライアントのLast-Event-IDも変化しません
+// 書き込みに失敗し続けるクライアントはこの過程で検出され、削除されます
+export const sendHeartbeat = (): number => {
+  const frame =
+    HEARTBEAT_MODE === "ping"
+      ? `event: ping\ndata: ${JSON.stringify({ time: new Date().toISOString() })}\n\n`
+      : `: ping ${Date.now()}\n\n`;
+  return writeFrame(
+    getClients(),
+    createFrame(frame, "ping", { heartbeat: true }),
+  );
+};
+
+// ハートビートを開始する関数
+// サーバー起動時に呼び出され、設定された間隔でハートビートを送信します
+export const startHeartbeat = (): void => {
+  if (heartbeatTimer !== null || HEARTBEAT_INTERVAL_MS <= 0) {
+    return;
+  }
+  heartbeatTimer = setInterval(sendHeartbeat, HEARTBEAT_INTERVAL_MS);
+  logInfo(
+    `ハートビート開始 - 間隔: ${HEARTBEAT_INTERVAL_MS}ms - 形式: ${HEARTBEAT_MODE}`,
+  );
+};
+
+// ハートビートを停止する関数
+export const stopHeartbeat = (): void => {
+  if (heartbeatTimer !== null) {
+    clearInterval(heartbeatTimer);
+    heartbeatTimer = null;
+  }
+};
+
+// すべてのクライアントとの接続を閉じる関数
+// グレースフルシャットダウン時に呼び出されます
+// 'server-shutdown'イベントで再接続までの待ち時間（retry）を提案してから接続を閉じます
+// クライアントは提案された時間の後に再接続し、Last-Event-IDで失われたイベントを受け取ります
+// 戻り値は通知したクライアント数です
+export const closeAllClients = (retryMs: number): number => {
+  const targets = getClients();
+  targets.forEach((client) => {
+    try {
+      // retryフィールドでEventSourceの再接続間隔を変更します
+      client.res.end(
+        `retry: ${retryMs}\nevent: server-shutdown\ndata: ${JSON.stringify({
+          type: "info",
+          message:
+            "サーバーがシャットダウンします。しばらくしてから再接続します",
+          retry: retryMs,
+        })}\n\n`,
+      );
+    } catch (error) {
+      logError(
+        `シャットダウン通知エラー - クライアントID: ${client.id}`,
+        error,
+      );
+    }
+    removeClient(client.id);
+  });
+  return targets.length;
 };
 
 // 過去のイベントを送信する関数
-// クライアントが再接続した際に、切断中に失われたイベントを再送します
+// クライアントが再接続した際に、購読しているチャンネルで切断中に失われたイベントを再送します
+// 認証済みのクライアントの場合は、そのユーザー宛てのイベントも再送します
 // lastEventIdは、クライアントが最後に受信したイベントのIDです
-export const sendMissedEvents = (res: Response, lastEventId: number): void => {
-  // lastEventIdより新しいイベントをキャッシュから抽出します
-  // これらは、クライアントが切断中に送信されたイベントです
-  const missedEvents = eventCache.filter((event) => event.id > lastEventId);
-  // 失われた各イベントを順番に再送します
-  // これにより、クライアントは切断中に送信されたすべてのイベントを受信できます
-  missedEvents.forEach((event) => {
-    sendEvent(res, event.type, event.data);
+// 保存されたイベントは元のIDのまま書き込まれ、再度保存されることはありません
+// これにより、再接続のたびに履歴が重複したり、クライアントのLast-Event-IDがずれたりしません
+// 戻り値は再送したイベントの数です
+export const sendMissedEvents = (
+  client: Client,
+  lastEventId: number,
+): number => {
+  // 数値として解釈できないIDは無視します
+  if (Number.isNaN(lastEventId)) {
+    return 0;
+  }
+
+  // 再送対象のストリームを集めます（購読チャンネルと、認証済みの場合はユーザー宛て）
+  const streams = [...client.channels];
+  if (client.user) {
+    streams.push(`user:${client.user.id}`);
+  }
+  const { events, evictedStreams } = eventStore.getEventsAfter(
+    lastEventId,
+    streams,
+  );
+
+  // 一部のイベントがすでに削除されている場合、
+  // またはサーバーが発行していないIDが要求された場合は、クライアントに欠落を通知します
+  // このイベントにはidフィールドを付けないため、クライアントのLast-Event-IDは変化しません
+  if (evictedStreams.length > 0 || lastEventId > eventStore.lastId()) {
+    sendEvent(client, "replay-gap", {
+      type: "warning",
+      message: "切断中のイベントの一部を再送できませんでした",
+      lastEventId,
+      channels: evictedStreams,
+    });
+  }
+
+  // 失われた各イベントを元のIDのまま送信順に再送します
+  // 必要な役割を持たない接続には、配信時と同様に再送しません
+  const replayable = events.filter((event) => canReceive(client, event));
+  replayable.forEach((event) => {
+    writeToClient(
+      client,
+      createFrame(formatEvent(event.id, event.type, event.data), event.type, {
+        eventId: event.id,
+      }),
+    );
   });
+
+  sseEventsReplayedTotal.inc({}, replayable.length);
+  return replayable.length;
 };
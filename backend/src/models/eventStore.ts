@@ -0,0 +1,154 @@
+// イベントストアモデル
+// このファイルは再接続時の再送に使用するイベントの保存先（イベントストア）のインターフェースと
+// メモリ内実装を定義します
+// 保存先を差し替えられるようにすることで、サーバー再起動後も再送できる永続ストアを利用できます
+import { Event } from "./event";
+
+// イベントストアの設定の型定義
+// - maxEventsPerStream: ストリーム（チャンネルまたはユーザー）ごとに保持するイベントの最大数
+// - maxAgeMs: イベントを保持する最大期間（ミリ秒）。0の場合は期間による削除を行いません
+export interface EventStoreOptions {
+  maxEventsPerStream: number;
+  maxAgeMs: number;
+}
+
+// 再送対象のイベントを取得した結果の型定義
+// - events: 指定されたIDより新しいイベント（ID順）
+// - evictedStreams: 指定されたIDより新しいイベントの一部がすでに削除されているストリーム
+export interface ReplayResult {
+  events: Event[];
+  evictedStreams: string[];
+}
+
+// イベントストアのインターフェース
+// メモリ内ストアとファイルストアはどちらもこのインターフェースを実装します
+export interface EventStore {
+  // 新しいイベントIDを採番します（IDはストア全体で単調増加します）
+  nextId(): number;
+  // 最後に採番されたイベントIDを返します
+  lastId(): number;
+  // イベントを保存します
+  append(event: Event): void;
+  // 指定されたストリームで、lastEventIdより新しいイベントを取得します
+  getEventsAfter(lastEventId: number, streams: string[]): ReplayResult;
+  // 保持しているすべてのイベントと削除状況を返します
+  snapshot(): PersistedState;
+  // 未保存のデータを保存先に書き出します（シャットダウン時に使用）
+  flush(): Promise<void>;
+}
+
+// 永続ストアに保存される状態の型定義
+// - lastId: 最後に採番されたイベントID
+// - evicted: ストリームごとの削除された最新のイベントID
+// - events: 保持しているイベント
+export interface PersistedState {
+  lastId: number;
+  evicted: Record<string, number>;
+  events: Event[];
+}
+
+// ストリームの型定義
+// - events: 過去のイベント（古い順）
+// - lastEvictedId: 削除された最新のイベントID
+//   再接続時に要求されたイベントがすでに削除されているかを判定するために使用されます
+interface Stream {
+  events: Event[];
+  lastEvictedId: number;
+}
+
+// イベントが属するストリーム名を返す関数
+// ユーザー宛てのイベントは"user:<ユーザーID>"、それ以外はチャンネル名をストリーム名とします
+// チャンネル名には":"を使用できないため、両者が衝突することはありません
+export const streamOf = (event: Event): string => {
+  return event.userId !== undefined
+    ? `user:${event.userId}`
+    : (event.channel as string);
+};
+
+// メモリ内イベントストアを作成する関数
+// サーバーのメモリ上にイベントを保持します。サーバーを再起動するとすべてのイベントが失われます
+// initialは永続ストアから復元した状態を渡すために使用します
+export const createMemoryEventStore = (
+  options: EventStoreOptions,
+  initial: PersistedState = { lastId: 0, evicted: {}, events: [] },
+): EventStore => {
+  // ストリームごとのイベント
+  const streams = new Map<string, Stream>();
+  // 最後に採番されたイベントID
+  let currentId = initial.lastId;
+
+  // 保持期間を過ぎたイベントと上限を超えたイベントを削除する関数
+  const prune = (stream: Stream): void => {
+    const expiresBefore =
+      options.maxAgeMs > 0 ? Date.now() - options.maxAgeMs : -Infinity;
+    // 最も古いイベントから順に削除します（FIFO: First In, First Out）
+    while (
+      stream.events.length > options.maxEventsPerStream ||
+      (stream.events.length > 0 && stream.events[0].createdAt < expiresBefore)
+    ) {
+      const evicted = stream.events.shift();
+      if (evicted) {
+        stream.lastEvictedId = evicted.id;
+      }
+    }
+  };
+
+  const append = (event: Event): void => {
+    const name = streamOf(event);
+    // ストリームがまだない場合は作成します
+    let stream = streams.get(name);
+    if (!stream) {
+      stream = { events: [], lastEvictedId: 0 };
+      streams.set(name, stream);
+    }
+    stream.events.push(event);
+    // 復元したイベントが最後のIDより新しい場合でもIDが重複しないようにします
+    currentId = Math.max(currentId, event.id);
+    prune(stream);
+  };
+
+  // 復元した状態を反映します
+  Object.entries(initial.evicted).forEach(([name, lastEvictedId]) => {
+    streams.set(name, { events: [], lastEvictedId });
+  });
+  initial.events.forEach(append);
+
+  return {
+    nextId: () => ++currentId,
+    lastId: () => currentId,
+    append,
+    getEventsAfter: (lastEventId, names) => {
+      const events: Event[] = [];
+      const evictedStreams: string[] = [];
+      names.forEach((name) => {
+        const stream = streams.get(name);
+        if (!stream) {
+          return;
+        }
+        prune(stream);
+        if (lastEventId < stream.lastEvictedId) {
+          evictedStreams.push(name);
+        }
+        events.push(...stream.events.filter((event) => event.id > lastEventId));
+      });
+      // 複数ストリームのイベントを送信順（ID順）に並べます
+      events.sort((a, b) => a.id - b.id);
+      return { events, evictedStreams };
+    },
+    snapshot: () => {
+      const events: Event[] = [];
+      const evicted: Record<string, number> = {};
+      streams.forEach((stream, name) => {
+        prune(stream);
+        events.push(...stream.events);
+        if (stream.lastEvictedId > 0) {
+          evicted[name] = stream.lastEvictedId;
+        }
+      });
+      events.sort((a, b) => a.id - b.id);
+      return { lastId: currentId, evicted, events };
+    },
+    // メモリ内ストアには書き出すデータがありません
+    flush: async () => {},
+  };
+};
@@ -0,0 +1,90 @@
+// ファイルAPIキーリポジトリモデル
+// このファイルはAPIキーをJSONファイルに保存するAPIキーリポジトリを提供します
+// サーバーを再起動しても、発行したAPIキーや失効させたAPIキーの状態が残ります
+//
+// ファイルの形式: { "lastId": 1, "apiKeys": [{ "id": 1, "name": "...", "hash": "<SHA-256ハッシュ>", ... }] }
+// キーそのものは保存せず、ハッシュ値のみを保存します
+import fs from "fs";
+import path from "path";
+// APIキーリポジトリのインターフェースとメモリ内実装をインポートします
+// ファイルリポジトリはメモリ内リポジトリで検索を行い、変更のたびにファイルを書き直します
+import {
+  ApiKeyRepository,
+  PersistedApiKeys,
+  createMemoryApiKeyRepository,
+} from "./apiKeyRepository";
+// ログ出力用の関数をインポートします
+import { logInfo } from "../utils/logger";
+
+// 最終使用日時をファイルに書き込む最短の間隔（ミリ秒）
+// APIキーは送信のたびに使用されるため、使用のたびにファイルを書き直さないようにします
+// 間隔内の最終使用日時はメモリ上で更新され、次の書き込みでファイルに反映されます
+const LAST_USED_SAVE_INTERVAL_MS = 60 * 1000;
+
+// APIキーファイルを読み込む関数
+// ファイルが存在しない場合は、APIキーが1つもない状態を返します
+// 解析できない場合は、既存のAPIキーを上書きしてしまわないよう起動を中止します
+const loadApiKeys = (filePath: string): PersistedApiKeys => {
+  if (!fs.existsSync(filePath)) {
+    return { lastId: 0, apiKeys: [] };
+  }
+
+  const data = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  if (!data || !Array.isArray(data.apiKeys)) {
+    throw new Error(`APIキーファイルの形式が不正です - ファイル: ${filePath}`);
+  }
+  return { lastId: Number(data.lastId) || 0, apiKeys: data.apiKeys };
+};
+
+// ファイルAPIキーリポジトリを作成する関数
+// 起動時にファイルからAPIキーを復元し、作成・失効のたびにファイル全体を書き直します
+export const createFileApiKeyRepository = (
+  filePath: string,
+): ApiKeyRepository => {
+  // APIキーファイルを保存するディレクトリを作成します
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+  const memory = createMemoryApiKeyRepository(loadApiKeys(filePath));
+  // 最後にファイルを書き込んだ日時
+  let lastSavedAt = 0;
+
+  // APIキーファイルを書き直す関数
+  // 一時ファイルに書き出してから置き換えるため、途中で停止してもファイルが壊れることはありません
+  // ファイルにはキーのハッシュ値が含まれるため、所有者のみが読み書きできる権限で作成します
+  const save = (): void => {
+    const tempPath = `${filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(memory.snapshot(), null, 2), {
+      mode: 0o600,
+    });
+    fs.renameSync(tempPath, filePath);
+    lastSavedAt = Date.now();
+  };
+
+  logInfo(
+    `APIキーを復元 - ファイル: ${filePath} - APIキー数: ${memory.list().length}`,
+  );
+
+  return {
+    ...memory,
+    create: (apiKey) => {
+      const created = memory.create(apiKey);
+      save();
+      return created;
+    },
+    update: (id, changes) => {
+      const updated = memory.update(id, changes);
+      // 最終使用日時のみの更新は、前回の書き込みから一定時間が経過した場合のみ書き込みます
+      const onlyLastUsed = Object.keys(changes).every(
+        (key) => key === "lastUsedAt",
+      );
+      if (
+        updated &&
+        (!onlyLastUsed ||
+          Date.now() - lastSavedAt >= LAST_USED_SAVE_INTERVAL_MS)
+      ) {
+        save();
+      }
+      return updated;
+    },
+  };
+};
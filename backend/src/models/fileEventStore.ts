@@ -0,0 +1,108 @@
+// ファイルイベントストアモデル
+// このファイルはイベントを追記専用のログファイルに保存するイベントストアを提供します
+// サーバーを再起動してもイベントIDは続きから採番され、再接続したクライアントに過去のイベントを再送できます
+//
+// ログファイルは1行に1つのJSONを保存するJSON Lines形式です
+// - {"meta": {...}}: 最後のイベントIDと、ストリームごとの削除された最新のイベントID
+// - それ以外の行: 1つのイベント
+import fs from "fs";
+import path from "path";
+// イベントストアのインターフェースとメモリ内実装をインポートします
+// ファイルストアはメモリ内ストアで検索を行い、変更をファイルに追記します
+import {
+  EventStore,
+  EventStoreOptions,
+  PersistedState,
+  createMemoryEventStore,
+} from "./eventStore";
+import { Event } from "./event";
+// ログ出力用の関数をインポートします
+import { logInfo, logWarning } from "../utils/logger";
+
+// 圧縮を行うまでに追記できる行数
+// 追記のたびにファイルが大きくなるため、この行数を超えたら保持中のイベントだけでファイルを書き直します
+const COMPACT_THRESHOLD = 1000;
+
+// ログファイルを読み込む関数
+// 書き込み途中でサーバーが停止した場合など、解析できない行は読み飛ばします
+const loadLog = (filePath: string): PersistedState => {
+  const state: PersistedState = { lastId: 0, evicted: {}, events: [] };
+  if (!fs.existsSync(filePath)) {
+    return state;
+  }
+
+  const lines = fs.readFileSync(filePath, "utf8").split("\n");
+  lines.forEach((line, index) => {
+    if (line.trim() === "") {
+      return;
+    }
+    try {
+      const record = JSON.parse(line);
+      if (record.meta) {
+        state.lastId = Math.max(state.lastId, record.meta.lastId);
+        Object.assign(state.evicted, record.meta.evicted);
+      } else {
+        state.events.push(record as Event);
+        state.lastId = Math.max(state.lastId, record.id);
+      }
+    } catch {
+      logWarning(
+        `イベントログの解析に失敗したため読み飛ばします - ファイル: ${filePath} - 行: ${index + 1}`,
+      );
+    }
+  });
+  return state;
+};
+
+// ファイルイベントストアを作成する関数
+// 起動時にログファイルからイベントを復元し、保持期間と上限を適用したうえでファイルを書き直します
+export const createFileEventStore = (
+  filePath: string,
+  options: EventStoreOptions,
+): EventStore => {
+  // ログファイルを保存するディレクトリを作成します
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+  // ログファイルから状態を復元します
+  const restored = loadLog(filePath);
+  const memory = createMemoryEventStore(options, restored);
+  // 前回の圧縮以降に追記した行数
+  let appendedLines = 0;
+
+  // ログファイルを圧縮する関数
+  // 保持中のイベントとメタ情報だけを一時ファイルに書き出し、元のファイルと置き換えます
+  // 置き換えはrenameで行うため、途中で停止してもログファイルが壊れることはありません
+  const compact = (): void => {
+    const { lastId, evicted, events } = memory.snapshot();
+    const lines = [
+      JSON.stringify({ meta: { lastId, evicted } }),
+      ...events.map((event) => JSON.stringify(event)),
+    ];
+    const tempPath = `${filePath}.tmp`;
+    fs.writeFileSync(tempPath, lines.join("\n") + "\n");
+    fs.renameSync(tempPath, filePath);
+    appendedLines = 0;
+  };
+
+  compact();
+  logInfo(
+    `イベントログを復元 - ファイル: ${filePath} - イベント数: ${restored.events.length} - 最後のID: ${memory.lastId()}`,
+  );
+
+  return {
+    ...memory,
+    append: (event) => {
+      memory.append(event);
+      // イベントをログファイルに追記します
+      // 同期的に書き込むことで、レスポンスを返す前にイベントが保存されていることを保証します
+      fs.appendFileSync(filePath, JSON.stringify(event) + "\n");
+      appendedLines++;
+      if (appendedLines >= COMPACT_THRESHOLD) {
+        compact();
+      }
+    },
+    flush: async () => {
+      compact();
+    },
+  };
+};
@@ -0,0 +1,94 @@
+// ファイルユーザーリポジトリモデル
+// このファイルはユーザー情報をJSONファイルに保存するユーザーリポジトリを提供します
+// サーバーを再起動しても、登録したユーザーや変更したパスワードが残ります
+//
+// ファイルの形式: { "lastId": 3, "users": [{ "id": 1, "username": "...", "password": "<bcryptハッシュ>", "role": "..." }] }
+import fs from "fs";
+import path from "path";
+// ユーザーリポジトリのインターフェースとメモリ内実装をインポートします
+// ファイルリポジトリはメモリ内リポジトリで検索を行い、変更のたびにファイルを書き直します
+import {
+  UserRepository,
+  PersistedUsers,
+  createMemoryUserRepository,
+} from "./userRepository";
+import { User } from "./user";
+// 役割を検証する関数をインポートします
+import { isRole } from "./permission";
+// ログ出力用の関数をインポートします
+import { logInfo, logWarning } from "../utils/logger";
+
+// ユーザーファイルを読み込む関数
+// ファイルが存在しない場合は、ユーザーが1人もいない状態を返します
+// 解析できない場合は、既存のユーザーを上書きしてしまわないよう起動を中止します
+const loadUsers = (filePath: string): PersistedUsers => {
+  if (!fs.existsSync(filePath)) {
+    logWarning(
+      `ユーザーファイルが見つかりません。npm run seed で開発用のユーザーを作成できます - ファイル: ${filePath}`,
+    );
+    return { lastId: 0, users: [] };
+  }
+
+  const data = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  if (!data || !Array.isArray(data.users)) {
+    throw new Error(`ユーザーファイルの形式が不正です - ファイル: ${filePath}`);
+  }
+  // 不明な役割（役割の導入前に作成された"user"など）は、最も権限の低いviewerとして読み込みます
+  const users = data.users.map((user: User) => {
+    if (isRole(user.role)) {
+      return user;
+    }
+    logWarning(
+      `不明な役割のためviewerとして読み込みます - ユーザー: ${user.username} - 役割: ${user.role}`,
+    );
+    return { ...user, role: "viewer" };
+  });
+  return { lastId: Number(data.lastId) || 0, users };
+};
+
+// ファイルユーザーリポジトリを作成する関数
+// 起動時にファイルからユーザーを復元し、作成・更新・削除のたびにファイル全体を書き直します
+export const createFileUserRepository = (filePath: string): UserRepository => {
+  // ユーザーファイルを保存するディレクトリを作成します
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+  const memory = createMemoryUserRepository(loadUsers(filePath));
+
+  // ユーザーファイルを書き直す関数
+  // 一時ファイルに書き出してから置き換えるため、途中で停止してもファイルが壊れることはありません
+  // 同期的に書き込むことで、レスポンスを返す前に変更が保存されていることを保証します
+  const save = (): void => {
+    const tempPath = `${filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(memory.snapshot(), null, 2));
+    fs.renameSync(tempPath, filePath);
+  };
+
+  logInfo(
+    `ユーザーを復元 - ファイル: ${filePath} - ユーザー数: ${memory.list().length}`,
+  );
+
+  return {
+    ...memory,
+    create: (user) => {
+      const created = memory.create(user);
+      if (created) {
+        save();
+      }
+      return created;
+    },
+    update: (id, changes) => {
+      const updated = memory.update(id, changes);
+      if (updated) {
+        save();
+      }
+      return updated;
+    },
+    remove: (id) => {
+      const removed = memory.remove(id);
+      if (removed) {
+        save();
+      }
+      return removed;
+    },
+  };
+};
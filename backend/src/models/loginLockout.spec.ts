@@ -0,0 +1,68 @@
+// ログインロックアウトモデルのテスト
+// 同時に送られたログインの試行が、ロックアウトの上限を超えて許可されないことを確認します
+import { describe, it, afterEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import { reserveLoginAttempt, recordLoginSuccess } from "./loginLockout";
+import {
+  LOGIN_LOCKOUT_THRESHOLD,
+  LOGIN_LOCKOUT_BASE_MS,
+} from "../config/index";
+
+// 同じユーザー名と接続元IPアドレスで、count件の試行を同時に予約し、許可された件数を返す関数
+const reserveConcurrently = async (
+  username: string,
+  count: number,
+): Promise<number> => {
+  const attempts = await Promise.all(
+    Array.from({ length: count }, () =>
+      reserveLoginAttempt(username, "192.0.2.1"),
+    ),
+  );
+  return attempts.filter((attempt) => attempt.allowed).length;
+};
+
+describe("ログインロックアウト", () => {
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it("同時に送られた試行も、上限の回数までしか許可しない", async () => {
+    const allowed = await reserveConcurrently(
+      "parallel",
+      LOGIN_LOCKOUT_THRESHOLD * 3,
+    );
+    assert.equal(allowed, LOGIN_LOCKOUT_THRESHOLD);
+
+    const next = await reserveLoginAttempt("parallel", "192.0.2.1");
+    assert.equal(next.allowed, false);
+  });
+
+  it("上限に達した試行は、失敗した場合のロックアウトの状態を返す", async () => {
+    let last = await reserveLoginAttempt("locking", "192.0.2.1");
+    for (let i = 1; i < LOGIN_LOCKOUT_THRESHOLD; i++) {
+      assert.ok(last.allowed);
+      assert.equal(last.locked, null);
+      last = await reserveLoginAttempt("locking", "192.0.2.1");
+    }
+    assert.ok(last.allowed);
+    assert.equal(last.locked?.failures, LOGIN_LOCKOUT_THRESHOLD);
+  });
+
+  it("ログインに成功すると、予約した試行を含めて失敗回数を0に戻す", async () => {
+    await reserveConcurrently("success", LOGIN_LOCKOUT_THRESHOLD - 1);
+    await recordLoginSuccess("success", "192.0.2.1");
+
+    assert.equal(
+      await reserveConcurrently("success", LOGIN_LOCKOUT_THRESHOLD * 2),
+      LOGIN_LOCKOUT_THRESHOLD,
+    );
+  });
+
+  it("ロックアウトの解除後は、同時に送られても1回だけ試行を許可する", async () => {
+    await reserveConcurrently("expired", LOGIN_LOCKOUT_THRESHOLD);
+    const now = Date.now();
+    mock.method(Date, "now", () => now + LOGIN_LOCKOUT_BASE_MS + 1);
+
+    assert.equal(await reserveConcurrently("expired", 5), 1);
+  });
+});
@@ -0,0 +1,121 @@
+// ログインロックアウトモデル
+// このファイルはログインに続けて失敗したクライアントを一定時間ロックアウトする機能を提供します
+// 失敗回数はユーザー名と接続元IPアドレスの組み合わせごとにレート制限ストアへ記録します
+// ユーザー名だけで数えると、第三者がわざと失敗を繰り返して本人をログインできなくしてしまうためです
+// （多数のユーザー名を試す攻撃は、ログインのIPアドレスごとのレート制限で防ぎます）
+// ただし、IPアドレスを変えながら1人のユーザーのパスワードを試す攻撃を防ぐため、
+// ユーザー名ごとの失敗回数も、より大きい上限（LOGIN_LOCKOUT_USER_THRESHOLD）で記録します
+import {
+  LOGIN_LOCKOUT_THRESHOLD,
+  LOGIN_LOCKOUT_USER_THRESHOLD,
+  LOGIN_LOCKOUT_BASE_MS,
+  LOGIN_LOCKOUT_MAX_MS,
+  LOGIN_FAILURE_WINDOW_MS,
+} from "../config/index";
+// 失敗回数を保存するレート制限ストアをインポートします
+import { rateLimitStore, FailureState } from "./rateLimitStore";
+
+// ロックアウトの設定（ユーザー名と接続元IPアドレスの組み合わせごと）
+const LOCKOUT_OPTIONS = {
+  threshold: LOGIN_LOCKOUT_THRESHOLD,
+  baseMs: LOGIN_LOCKOUT_BASE_MS,
+  maxMs: LOGIN_LOCKOUT_MAX_MS,
+  windowMs: LOGIN_FAILURE_WINDOW_MS,
+};
+
+// ロックアウトの設定（接続元IPアドレスにかかわらず、ユーザー名ごと）
+const USER_LOCKOUT_OPTIONS = {
+  ...LOCKOUT_OPTIONS,
+  threshold: LOGIN_LOCKOUT_USER_THRESHOLD,
+};
+
+// 失敗回数を記録するキーと設定の一覧を返す関数
+// 上限が0（無効）の記録は含めません
+const lockoutEntries = (
+  username: string,
+  clientIP: string,
+): { key: string; options: typeof LOCKOUT_OPTIONS }[] => {
+  return [
+    {
+      key: `login-failure:${username}:${clientIP}`,
+      options: LOCKOUT_OPTIONS,
+    },
+    { key: `login-failure-user:${username}`, options: USER_LOCKOUT_OPTIONS },
+  ].filter((entry) => entry.options.threshold > 0);
+};
+
+// ログイン試行の予約結果の型定義
+// - allowed: パスワードを検証してよい場合はtrue
+// - locked: この試行が失敗として確定した場合に、ロックアウトされる状態（ロックアウトされない場合はnull）
+// - retryAfterMs: 拒否した場合の、ロックアウトが解除されるまでの時間（ミリ秒）
+export type LoginAttempt =
+  | { allowed: true; locked: FailureState | null }
+  | { allowed: false; retryAfterMs: number };
+
+// ロックアウトの残り時間（ミリ秒）を返す関数
+// どれかの記録でロックアウトされている場合は、最も長い残り時間を返します
+const remainingMs = (states: (FailureState | null)[], now: number): number => {
+  return states.reduce(
+    (remaining, state) =>
+      state ? Math.max(remaining, state.lockedUntil - now) : remaining,
+    0,
+  );
+};
+
+// ログインの試行を予約する関数
+// パスワードを検証する前に失敗として数えておき、成功した場合はrecordLoginSuccessで取り消します
+// 検証の後に数えると、並行して送られた試行がすべてロックアウトの確認を通過してしまい、
+// 上限を超えてパスワードを試せてしまうためです
+// ロックアウト中の試行は数えずに拒否するため、解除後は再びログインを試せます
+// 並行して送られた試行のうち、上限（解除後は1回）を超えた分は失敗として数えたうえで拒否します
+export const reserveLoginAttempt = async (
+  username: string,
+  clientIP: string,
+): Promise<LoginAttempt> => {
+  const entries = lockoutEntries(username, clientIP);
+  const before = await Promise.all(
+    entries.map(({ key }) => rateLimitStore.getFailures(key)),
+  );
+  const lockedMs = remainingMs(before, Date.now());
+  if (lockedMs > 0) {
+    return { allowed: false, retryAfterMs: lockedMs };
+  }
+
+  // 失敗回数を増やした結果で、この試行が許容される回数に収まっているかを確認します
+  // 上限に達するまでは上限まで、ロックアウトの解除後は確認時点の回数に1を加えた回数までを許容します
+  const after = await Promise.all(
+    entries.map(({ key, options }) =>
+      rateLimitStore.recordFailure(key, options),
+    ),
+  );
+  const exceeded = after.some(
+    (state, index) =>
+      state.failures >
+      Math.max(
+        entries[index].options.threshold,
+        (before[index]?.failures ?? 0) + 1,
+      ),
+  );
+  if (exceeded) {
+    return { allowed: false, retryAfterMs: remainingMs(after, Date.now()) };
+  }
+
+  // ロックアウトされた記録のうち、解除が最も遅いものを返します
+  const locked = after
+    .filter((state) => state.lockedUntil > 0)
+    .sort((a, b) => b.lockedUntil - a.lockedUntil);
+  return { allowed: true, locked: locked[0] ?? null };
+};
+
+// ログインの成功を記録する関数
+// 予約した試行を含め、失敗回数を0に戻します
+export const recordLoginSuccess = async (
+  username: string,
+  clientIP: string,
+): Promise<void> => {
+  await Promise.all(
+    lockoutEntries(username, clientIP).map(({ key }) =>
+      rateLimitStore.resetFailures(key),
+    ),
+  );
+};
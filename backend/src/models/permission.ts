@@ -0,0 +1,49 @@
+// 権限モデル
+// このファイルは役割（viewer / publisher / admin）による権限の判定を提供します
+// 役割には上下関係があり、上位の役割は下位の役割の権限をすべて持ちます
+// 認証ミドルウェア（ルートの保護）とイベントの配信（受信できる接続の判定）の両方で使用されます
+import { ROLES, Role, CHANNEL_ROLES } from "../config/index";
+
+// 値が役割として正しいかどうかを確認する関数
+export const isRole = (value: unknown): value is Role => {
+  return typeof value === "string" && ROLES.includes(value as Role);
+};
+
+// 役割が必要な役割以上かどうかを確認する関数
+// requiredが指定されていない場合は、誰でも（未認証でも）権限があるとみなします
+// 役割がない場合（未認証）や、不明な役割の場合は権限がないとみなします
+export const hasRole = (
+  role: string | undefined,
+  required: Role | undefined,
+): boolean => {
+  if (required === undefined) {
+    return true;
+  }
+  return isRole(role) && ROLES.indexOf(role) >= ROLES.indexOf(required);
+};
+
+// 2つの役割のうち、上位の役割を返す関数
+// チャンネルに必要な役割と、イベントに指定された役割のどちらも満たす役割を求めるために使用します
+export const higherRole = (
+  a: Role | undefined,
+  b: Role | undefined,
+): Role | undefined => {
+  if (a === undefined || b === undefined) {
+    return a ?? b;
+  }
+  return ROLES.indexOf(a) >= ROLES.indexOf(b) ? a : b;
+};
+
+// チャンネルの購読・送信に必要な役割を返す関数
+// CHANNEL_ROLESで指定されていないチャンネルはundefined（誰でも購読できる）を返します
+export const getChannelRole = (channel: string): Role | undefined => {
+  return CHANNEL_ROLES[channel];
+};
+
+// 役割がチャンネルを購読・送信できるかどうかを確認する関数
+export const canAccessChannel = (
+  role: string | undefined,
+  channel: string,
+): boolean => {
+  return hasRole(role, getChannelRole(channel));
+};
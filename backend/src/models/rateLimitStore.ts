@@ -0,0 +1,186 @@
+// レート制限ストアモデル
+// このファイルはレート制限とログイン失敗の回数を保存するストア（レート制限ストア）のインターフェースと
+// メモリ内実装を定義します
+// 複数のバックエンドインスタンスで制限を共有する場合は、Redisなどの共有ストアで
+// このインターフェースを実装して差し替えます（そのため、すべての操作は非同期です）
+
+// トークンバケットの設定の型定義
+// - capacity: バケットに溜まるトークンの最大数（連続して受け付けるリクエスト数）
+// - refillPerMs: 1ミリ秒あたりに補充されるトークンの数
+export interface BucketOptions {
+  capacity: number;
+  refillPerMs: number;
+}
+
+// トークンを消費した結果の型定義
+// - allowed: トークンを消費できた（リクエストを受け付ける）かどうか
+// - remaining: 消費後に残っているトークンの数
+// - retryAfterMs: 次のトークンが補充されるまでの時間（ミリ秒）。受け付けた場合は0
+// - resetMs: バケットが満杯に戻るまでの時間（ミリ秒）
+export interface BucketResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number;
+  resetMs: number;
+}
+
+// ロックアウトの設定の型定義
+// - threshold: ロックアウトするまでに許容する失敗回数
+// - baseMs: 最初のロックアウトの時間（ミリ秒）
+// - maxMs: ロックアウトの最大時間（ミリ秒）
+// - windowMs: 最後の失敗から失敗回数を覚えておく時間（ミリ秒）
+export interface LockoutOptions {
+  threshold: number;
+  baseMs: number;
+  maxMs: number;
+  windowMs: number;
+}
+
+// ログイン失敗の状態の型定義
+// - failures: 続けて失敗した回数
+// - lockedUntil: ロックアウトが解除される時刻（ミリ秒）。ロックアウトされていない場合は0
+export interface FailureState {
+  failures: number;
+  lockedUntil: number;
+}
+
+// レート制限ストアのインターフェース
+export interface RateLimitStore {
+  // キーのバケットからトークンを1つ消費します
+  consume(key: string, options: BucketOptions): Promise<BucketResult>;
+  // キーの失敗回数を1増やし、ロックアウトの状態を返します
+  recordFailure(key: string, options: LockoutOptions): Promise<FailureState>;
+  // キーの失敗の状態を返します。失敗していない場合はnullを返します
+  getFailures(key: string): Promise<FailureState | null>;
+  // キーの失敗回数を0に戻します（ログイン成功時に使用）
+  resetFailures(key: string): Promise<void>;
+}
+
+// 失敗回数に応じたロックアウトの時間（ミリ秒）を返す関数
+// 失敗回数がthresholdに達するとbaseMsだけロックアウトし、その後は失敗するたびに2倍にします
+// 共有ストアの実装でも同じ計算を使用できるようにエクスポートします
+export const lockoutDuration = (
+  failures: number,
+  options: LockoutOptions,
+): number => {
+  if (options.threshold <= 0 || failures < options.threshold) {
+    return 0;
+  }
+  // 2の累乗が大きくなりすぎないよう、指数は最大時間に達する程度で打ち切ります
+  const exponent = Math.min(failures - options.threshold, 30);
+  return Math.min(options.baseMs * 2 ** exponent, options.maxMs);
+};
+
+// 期限切れのエントリを削除する間隔（ミリ秒）
+const PRUNE_INTERVAL_MS = 60 * 1000;
+
+// バケットの状態の型定義
+// - tokens: 最後に更新した時点のトークンの数
+// - updatedAt: 最後に更新した時刻（ミリ秒）
+// - expiresAt: バケットが満杯に戻る時刻（これ以降は削除しても結果が変わりません）
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+  expiresAt: number;
+}
+
+// 失敗の状態の型定義
+// - expiresAt: 失敗回数を忘れる時刻（ロックアウト中は解除されるまで保持します）
+interface Failure extends FailureState {
+  expiresAt: number;
+}
+
+// メモリ内レート制限ストアを作成する関数
+// サーバーのメモリ上に状態を保持します。インスタンスごとに別々に制限され、再起動するとリセットされます
+export const createMemoryRateLimitStore = (): RateLimitStore => {
+  const buckets = new Map<string, Bucket>();
+  const failures = new Map<string, Failure>();
+  // 最後に期限切れのエントリを削除した時刻
+  let lastPrunedAt = Date.now();
+
+  // 期限切れのエントリを削除する関数
+  // タイマーを使用せず、アクセスのたびに一定間隔ごとに削除します
+  const prune = (now: number): void => {
+    if (now - lastPrunedAt < PRUNE_INTERVAL_MS) {
+      return;
+    }
+    lastPrunedAt = now;
+    buckets.forEach((bucket, key) => {
+      if (bucket.expiresAt <= now) {
+        buckets.delete(key);
+      }
+    });
+    failures.forEach((failure, key) => {
+      if (failure.expiresAt <= now) {
+        failures.delete(key);
+      }
+    });
+  };
+
+  // 期限内の失敗の状態を返す関数
+  const findFailure = (key: string, now: number): Failure | undefined => {
+    const failure = failures.get(key);
+    if (failure && failure.expiresAt <= now) {
+      failures.delete(key);
+      return undefined;
+    }
+    return failure;
+  };
+
+  return {
+    consume: async (key, { capacity, refillPerMs }) => {
+      const now = Date.now();
+      prune(now);
+
+      // 前回の更新からの経過時間に応じてトークンを補充します
+      const bucket = buckets.get(key);
+      let tokens = bucket
+        ? Math.min(
+            capacity,
+            bucket.tokens + (now - bucket.updatedAt) * refillPerMs,
+          )
+        : capacity;
+
+      const allowed = tokens >= 1;
+      if (allowed) {
+        tokens -= 1;
+      }
+      const resetMs = Math.ceil((capacity - tokens) / refillPerMs);
+      buckets.set(key, { tokens, updatedAt: now, expiresAt: now + resetMs });
+
+      return {
+        allowed,
+        remaining: Math.floor(tokens),
+        retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) / refillPerMs),
+        resetMs,
+      };
+    },
+    recordFailure: async (key, options) => {
+      const now = Date.now();
+      prune(now);
+
+      const count = (findFailure(key, now)?.failures ?? 0) + 1;
+      const duration = lockoutDuration(count, options);
+      const lockedUntil = duration > 0 ? now + duration : 0;
+      failures.set(key, {
+        failures: count,
+        lockedUntil,
+        expiresAt: Math.max(now + options.windowMs, lockedUntil),
+      });
+      return { failures: count, lockedUntil };
+    },
+    getFailures: async (key) => {
+      const failure = findFailure(key, Date.now());
+      return failure
+        ? { failures: failure.failures, lockedUntil: failure.lockedUntil }
+        : null;
+    },
+    resetFailures: async (key) => {
+      failures.delete(key);
+    },
+  };
+};
+
+// アプリケーション全体で共有するレート制限ストア
+// 共有ストアを使用する場合は、ここで作成するストアを差し替えます
+export const rateLimitStore: RateLimitStore = createMemoryRateLimitStore();
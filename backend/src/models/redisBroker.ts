@@ -0,0 +1,349 @@
+// Redisブローカーモデル
+// このファイルはRedisのPub/Sub（PUBLISH/SUBSCRIBE）を使用してインスタンス間でイベントを中継する
+// ブローカーを提供します
+// 外部ライブラリは使用せず、RedisのプロトコルであるRESPを直接話すため、
+// Redis互換のサーバーやテスト用の簡易サーバーに対しても動作します
+import net from "net";
+import { URL } from "url";
+import { Buffer } from "buffer";
+// ブローカーのインターフェースをインポートします
+import { Broker, BrokerMessage } from "./broker";
+// ログ出力用の関数をインポートします
+import { logError, logInfo, logWarning } from "../utils/logger";
+
+// Node.jsのsetTimeoutを明示的に型定義
+// TypeScriptの型チェックのために必要です
+declare const setTimeout: (callback: () => void, ms: number) => number;
+
+// 再接続までの待ち時間（ミリ秒）
+const RECONNECT_DELAY_MS = 1000;
+
+// 未接続の間に溜めておくコマンドの最大数
+// Redisが停止している間に発行されたイベントでメモリを使い果たさないよう、上限を超えたコマンドは破棄します
+const MAX_PENDING_COMMANDS = 1000;
+
+// RESPの応答の型定義
+// 文字列、整数、null、配列、エラーのいずれかです
+type RespValue = string | number | null | Error | RespValue[];
+
+// コマンドをRESP形式にエンコードする関数
+// 例: ["PUBLISH", "ch", "msg"] → *3\r\n$7\r\nPUBLISH\r\n$2\r\nch\r\n$3\r\nmsg\r\n
+const encodeCommand = (args: string[]): string => {
+  return (
+    `*${args.length}\r\n` +
+    args.map((arg) => `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`).join("")
+  );
+};
+
+// RESP形式の応答を1つ解析する関数
+// データがまだ揃っていない場合はnullを返します
+const parseReply = (
+  buffer: Buffer,
+  offset: number,
+): { value: RespValue; next: number } | null => {
+  const lineEnd = buffer.indexOf("\r\n", offset);
+  if (lineEnd === -1) {
+    return null;
+  }
+  const prefix = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString("utf8", offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (prefix) {
+    // 単純文字列（+OK など）
+    case "+":
+      return { value: line, next };
+    // エラー（-ERR ... など）
+    case "-":
+      return { value: new Error(line), next };
+    // 整数（:1 など）
+    case ":":
+      return { value: Number(line), next };
+    // バルク文字列（$5\r\nhello\r\n など）
+    case "$": {
+      const length = Number(line);
+      if (length === -1) {
+        return { value: null, next };
+      }
+      if (buffer.length < next + length + 2) {
+        return null;
+      }
+      return {
+        value: buffer.toString("utf8", next, next + length),
+        next: next + length + 2,
+      };
+    }
+    // 配列（*3\r\n... など）
+    case "*": {
+      const count = Number(line);
+      if (count === -1) {
+        return { value: null, next };
+      }
+      const items: RespValue[] = [];
+      let cursor = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, cursor);
+        if (!item) {
+          return null;
+        }
+        items.push(item.value);
+        cursor = item.next;
+      }
+      return { value: items, next: cursor };
+    }
+    default:
+      throw new Error(`不明なRESP応答です: ${prefix}`);
+  }
+};
+
+// Redisへの接続を作成する関数
+// 切断された場合は自動的に再接続し、接続のたびにonConnectで初期化コマンドを送信します
+// 未接続の間に送信されたコマンドは、MAX_PENDING_COMMANDSまで溜めておき、接続後にまとめて送信されます
+// requestで送信したコマンドの応答はPromiseで返し、それ以外の応答と購読中に届くメッセージはonReplyに渡します
+const createConnection = (
+  url: URL,
+  name: string,
+  onConnect: (send: (args: string[]) => void) => void,
+  onReply: (reply: RespValue) => void,
+) => {
+  let socket: net.Socket | null = null;
+  let ready = false;
+  let closing = false;
+  let buffer = Buffer.alloc(0);
+  const pending: string[][] = [];
+  // 未接続の間に上限を超えたため破棄したコマンドの数
+  let dropped = 0;
+  // 応答を待っているコマンドの処理（送信した順）
+  // Redisは送信した順に応答を返すため、先頭から順に応答を渡します
+  // 応答を待たないコマンドはnullとし、その応答はonReplyに渡します
+  const waiting: (((reply: RespValue) => void) | null)[] = [];
+
+  const write = (
+    target: net.Socket,
+    args: string[],
+    waiter: ((reply: RespValue) => void) | null = null,
+  ): void => {
+    waiting.push(waiter);
+    target.write(encodeCommand(args));
+  };
+
+  const send = (args: string[]): void => {
+    if (socket && ready) {
+      write(socket, args);
+    } else if (pending.length < MAX_PENDING_COMMANDS) {
+      pending.push(args);
+    } else {
+      // 破棄し始めたときに1回だけ記録し、件数は再接続時にまとめて記録します
+      if (dropped === 0) {
+        logWarning(
+          `Redis未接続のためコマンドを破棄します - 接続: ${name} - 上限: ${MAX_PENDING_COMMANDS}件`,
+        );
+      }
+      dropped++;
+    }
+  };
+
+  // コマンドを送信し、応答を返す関数
+  // 応答を待つ間に切断される可能性があるため、未接続の間は溜めずにすぐに失敗します
+  const request = (args: string[]): Promise<RespValue> =>
+    new Promise((resolve, reject) => {
+      if (!socket || !ready) {
+        reject(new Error(`Redisに接続されていません - 接続: ${name}`));
+        return;
+      }
+      write(socket, args, (reply) =>
+        reply instanceof Error ? reject(reply) : resolve(reply),
+      );
+    });
+
+  const open = (): void => {
+    const current = net.connect(Number(url.port || 6379), url.hostname);
+    socket = current;
+    buffer = Buffer.alloc(0);
+
+    current.on("connect", () => {
+      ready = true;
+      logInfo(`Redis接続確立 - 接続: ${name} - ${url.host}`);
+      // パスワードが指定されている場合は認証します
+      if (url.password) {
+        write(
+          current,
+          url.username
+            ? [
+                "AUTH",
+                decodeURIComponent(url.username),
+                decodeURIComponent(url.password),
+              ]
+            : ["AUTH", decodeURIComponent(url.password)],
+        );
+      }
+      onConnect((args) => write(current, args));
+      // 未接続の間に溜まったコマンドを送信します
+      pending.splice(0).forEach((args) => write(current, args));
+      if (dropped > 0) {
+        logWarning(
+          `Redis未接続の間にコマンドを破棄しました - 接続: ${name} - 件数: ${dropped}`,
+        );
+        dropped = 0;
+      }
+    });
+
+    current.on("data", (chunk: Buffer) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      // 揃っている応答をすべて処理します
+      let offset = 0;
+      try {
+        for (;;) {
+          const reply = parseReply(buffer, offset);
+          if (!reply) {
+            break;
+          }
+          offset = reply.next;
+          const waiter = waiting.shift();
+          if (waiter) {
+            waiter(reply.value);
+          } else {
+            onReply(reply.value);
+          }
+        }
+      } catch (error) {
+        logError(`Redis応答の解析に失敗しました - 接続: ${name}`, error);
+        current.destroy();
+        return;
+      }
+      buffer = buffer.subarray(offset);
+    });
+
+    current.on("error", (error) => {
+      logError(`Redis接続エラー - 接続: ${name}`, error);
+    });
+
+    current.on("close", () => {
+      ready = false;
+      // 応答を受け取れなかったコマンドは失敗として扱います
+      waiting
+        .splice(0)
+        .forEach((waiter) =>
+          waiter?.(new Error(`Redis接続が切断されました - 接続: ${name}`)),
+        );
+      if (closing) {
+        return;
+      }
+      logWarning(
+        `Redis接続切断 - 接続: ${name} - ${RECONNECT_DELAY_MS}ms後に再接続します`,
+      );
+      setTimeout(open, RECONNECT_DELAY_MS);
+    });
+  };
+
+  open();
+
+  return {
+    send,
+    request,
+    close: (): Promise<void> =>
+      new Promise((resolve) => {
+        closing = true;
+        if (!socket || socket.destroyed) {
+          resolve();
+          return;
+        }
+        socket.once("close", () => resolve());
+        socket.end(encodeCommand(["QUIT"]));
+      }),
+  };
+};
+
+// Redisブローカーを作成する関数
+// redisUrlは redis://[:password@]host[:port] 形式のURLです
+// channelはインスタンス間でイベントを中継するRedisのチャンネル名です
+// Redisの仕様により、購読中の接続では他のコマンドを送信できないため、発行用と購読用の2つの接続を使用します
+// イベントIDは"<channel>:last-event-id"キーのカウンターをINCRで増やして採番し、すべてのインスタンスで共有します
+// lastIdはこのインスタンスのイベントストアで最後に保存されたIDを返す関数です
+export const createRedisBroker = (
+  redisUrl: string,
+  channel: string,
+  lastId: () => number,
+): Broker => {
+  const url = new URL(redisUrl);
+  const idKey = `${channel}:last-event-id`;
+  let publisher: ReturnType<typeof createConnection> | null = null;
+  let subscriber: ReturnType<typeof createConnection> | null = null;
+
+  return {
+    connect: (handler) =>
+      new Promise((resolve) => {
+        // 発行用の接続
+        // PUBLISHの応答（受信したインスタンス数）は使用しませんが、エラーはログに記録します
+        publisher = createConnection(
+          url,
+          "publisher",
+          () => {},
+          (reply) => {
+            if (reply instanceof Error) {
+              logError("Redisへの発行に失敗しました", reply);
+            }
+          },
+        );
+
+        // 購読用の接続
+        // 接続のたびにチャンネルを購読し直します
+        subscriber = createConnection(
+          url,
+          "subscriber",
+          (send) => send(["SUBSCRIBE", channel]),
+          (reply) => {
+            if (reply instanceof Error) {
+              logError("Redisの購読に失敗しました", reply);
+              return;
+            }
+            if (!Array.isArray(reply)) {
+              return;
+            }
+            const [kind, , payload] = reply;
+            // 購読の開始を通知します
+            if (kind === "subscribe") {
+              logInfo(`Redisチャンネル購読開始 - チャンネル: ${channel}`);
+              resolve();
+              return;
+            }
+            // 受信したメッセージをハンドラーに渡します
+            if (kind === "message" && typeof payload === "string") {
+              try {
+                handler(JSON.parse(payload) as BrokerMessage);
+              } catch (error) {
+                logError("ブローカーメッセージの解析に失敗しました", error);
+              }
+            }
+          },
+        );
+      }),
+    publish: (message) => {
+      if (!publisher) {
+        logWarning("Redisブローカーが接続されていないため発行できません");
+        return;
+      }
+      publisher.send(["PUBLISH", channel, JSON.stringify(message)]);
+    },
+    nextEventId: async () => {
+      if (!publisher) {
+        throw new Error("Redisブローカーが接続されていないため採番できません");
+      }
+      const id = Number(await publisher.request(["INCR", idKey]));
+      // Redisの再起動などでカウンターが失われ、保存済みのIDより小さくなった場合は引き上げます
+      // INCRBYの結果も他のインスタンスの採番と重複しないため、そのままIDとして使用できます
+      const floor = lastId();
+      if (id > floor) {
+        return id;
+      }
+      return Number(
+        await publisher.request(["INCRBY", idKey, String(floor - id + 1)]),
+      );
+    },
+    close: async () => {
+      await Promise.all([publisher?.close(), subscriber?.close()]);
+      publisher = null;
+      subscriber = null;
+    },
+  };
+};
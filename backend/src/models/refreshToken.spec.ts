@@ -0,0 +1,77 @@
+// リフレッシュトークンモデルのテスト
+// ローテーションと再利用検知の動作を確認します
+import { describe, it, afterEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import {
+  issueRefreshToken,
+  rotateRefreshToken,
+  findRefreshTokenFamily,
+  revokeFamily,
+  getUserFamilies,
+} from "./refreshToken";
+import { REFRESH_TOKEN_TTL_MS } from "../config/index";
+
+describe("リフレッシュトークン", () => {
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it("使用したトークンは無効になり、同じファミリーの新しいトークンが発行される", () => {
+    const issued = issueRefreshToken(1);
+
+    const rotated = rotateRefreshToken(issued.token);
+    assert.ok(rotated.status === "ok");
+    assert.equal(rotated.userId, 1);
+    assert.equal(rotated.familyId, issued.familyId);
+    assert.notEqual(rotated.token, issued.token);
+
+    // 新しいトークンは続けてローテーションできます
+    assert.equal(rotateRefreshToken(rotated.token).status, "ok");
+  });
+
+  it("使用済みのトークンが再び使われた場合は、ファミリー全体を無効化する", () => {
+    const issued = issueRefreshToken(2);
+    const rotated = rotateRefreshToken(issued.token);
+    assert.ok(rotated.status === "ok");
+
+    // 盗まれたトークンが先に使われた状況を再現します
+    const reused = rotateRefreshToken(issued.token);
+    assert.deepEqual(reused, {
+      status: "reused",
+      userId: 2,
+      familyId: issued.familyId,
+    });
+
+    // 正規の利用者が持つ最新のトークンも無効になります
+    assert.equal(rotateRefreshToken(rotated.token).status, "invalid");
+    assert.equal(findRefreshTokenFamily(rotated.token), null);
+    // 無効化後は、使用済みのトークンも再利用としてではなく無効として扱います
+    assert.equal(rotateRefreshToken(issued.token).status, "invalid");
+  });
+
+  it("再利用を検知しても、同じユーザーの他のファミリーには影響しない", () => {
+    const stolen = issueRefreshToken(3);
+    const other = issueRefreshToken(3);
+    rotateRefreshToken(stolen.token);
+    rotateRefreshToken(stolen.token);
+
+    assert.equal(rotateRefreshToken(other.token).status, "ok");
+    assert.deepEqual(getUserFamilies(3), [other.familyId]);
+  });
+
+  it("有効期限を過ぎたトークンは使用できない", () => {
+    const issued = issueRefreshToken(4);
+    const now = Date.now();
+    mock.method(Date, "now", () => now + REFRESH_TOKEN_TTL_MS + 1);
+
+    assert.equal(rotateRefreshToken(issued.token).status, "invalid");
+  });
+
+  it("存在しないトークンと無効化したファミリーのトークンは使用できない", () => {
+    assert.equal(rotateRefreshToken("unknown").status, "invalid");
+
+    const issued = issueRefreshToken(5);
+    revokeFamily(issued.familyId);
+    assert.equal(rotateRefreshToken(issued.token).status, "invalid");
+  });
+});
@@ -0,0 +1,126 @@
+// リフレッシュトークンモデル
+// このファイルはアクセストークン（JWT）を更新するためのリフレッシュトークンを管理します
+// アクセストークンの有効期限を短く保ちつつ、ユーザーが再ログインせずに利用を続けられるようにします
+//
+// ローテーション: リフレッシュトークンは一度使用すると無効になり、新しいトークンが発行されます
+// 再利用検知: 使用済みのトークンが再び使われた場合は、トークンが盗まれたとみなし、
+//   同じログインから発行されたすべてのトークン（ファミリー）を無効化します
+import { createHash, randomBytes, randomUUID } from "crypto";
+// リフレッシュトークンの有効期間を設定ファイルからインポートします
+import { REFRESH_TOKEN_TTL_MS } from "../config/index";
+
+// 保存されているリフレッシュトークンの型定義
+// - familyId: 同じログインから発行されたトークンのグループID
+// - userId: トークンを発行したユーザーのID
+// - expiresAt: トークンの有効期限（UNIXタイムスタンプ）
+// - used: ローテーション済み（使用済み）かどうか
+interface StoredRefreshToken {
+  familyId: string;
+  userId: number;
+  expiresAt: number;
+  used: boolean;
+}
+
+// リフレッシュトークンの検証結果の型定義
+// - ok: 有効なトークン（新しいトークンを発行済み）
+// - reused: 使用済みトークンの再利用（ファミリー全体を無効化済み）
+// - invalid: 存在しない、期限切れ、または無効化されたトークン
+export type RotateResult =
+  | {
+      status: "ok";
+      userId: number;
+      familyId: string;
+      token: string;
+      expiresAt: number;
+    }
+  | { status: "reused"; userId: number; familyId: string }
+  | { status: "invalid" };
+
+// 発行済みのリフレッシュトークン
+// トークンそのものではなくハッシュ値をキーとして保存し、メモリの内容が漏れても悪用できないようにします
+const tokens = new Map<string, StoredRefreshToken>();
+
+// トークンのハッシュ値を計算する関数
+const hashToken = (token: string): string => {
+  return createHash("sha256").update(token).digest("hex");
+};
+
+// 有効期限を過ぎたトークンを削除する関数
+// 使用されずに期限切れになったトークンがメモリに残り続けないようにします
+const pruneExpired = (now: number): void => {
+  tokens.forEach((stored, hash) => {
+    if (stored.expiresAt <= now) {
+      tokens.delete(hash);
+    }
+  });
+};
+
+// リフレッシュトークンを発行する関数
+// familyIdを省略した場合は新しいファミリー（ログイン）として発行します
+// ファミリーIDはログインのセッションIDとして、アクセストークンにも含められます
+export const issueRefreshToken = (
+  userId: number,
+  familyId: string = randomUUID(),
+): { token: string; expiresAt: number; familyId: string } => {
+  const now = Date.now();
+  pruneExpired(now);
+  const token = randomBytes(32).toString("base64url");
+  const expiresAt = now + REFRESH_TOKEN_TTL_MS;
+  tokens.set(hashToken(token), { familyId, userId, expiresAt, used: false });
+  return { token, expiresAt, familyId };
+};
+
+// リフレッシュトークンをローテーションする関数
+// 有効なトークンの場合は使用済みにし、同じファミリーの新しいトークンを発行します
+// 使用済みトークンの場合は、そのファミリーのすべてのトークンを無効化します
+export const rotateRefreshToken = (token: string): RotateResult => {
+  const stored = tokens.get(hashToken(token));
+  if (!stored) {
+    return { status: "invalid" };
+  }
+  if (stored.used) {
+    revokeFamily(stored.familyId);
+    return {
+      status: "reused",
+      userId: stored.userId,
+      familyId: stored.familyId,
+    };
+  }
+  if (stored.expiresAt <= Date.now()) {
+    return { status: "invalid" };
+  }
+
+  // 使用済みにしたトークンは、再利用を検知するため有効期限まで保持します
+  stored.used = true;
+  const next = issueRefreshToken(stored.userId, stored.familyId);
+  return { status: "ok", userId: stored.userId, ...next };
+};
+
+// リフレッシュトークンのファミリーIDを取得する関数
+// アクセストークンの期限が切れた状態でのログアウトで、失効させるセッションを特定するために使用します
+// 存在しないトークンの場合はnullを返します
+export const findRefreshTokenFamily = (token: string): string | null => {
+  return tokens.get(hashToken(token))?.familyId ?? null;
+};
+
+// ファミリーのすべてのリフレッシュトークンを無効化する関数
+// 使用済みのトークンも含めて削除するため、以降はどのトークンを使っても"invalid"になります
+export const revokeFamily = (familyId: string): void => {
+  tokens.forEach((stored, hash) => {
+    if (stored.familyId === familyId) {
+      tokens.delete(hash);
+    }
+  });
+};
+
+// ユーザーの有効なファミリー（ログイン中のセッション）のIDを取得する関数
+// 「すべての端末からログアウト」で、ユーザーのすべてのセッションを無効化するために使用します
+export const getUserFamilies = (userId: number): string[] => {
+  const familyIds = new Set<string>();
+  tokens.forEach((stored) => {
+    if (stored.userId === userId) {
+      familyIds.add(stored.familyId);
+    }
+  });
+  return [...familyIds];
+};
@@ -0,0 +1,73 @@
+// セッションモデル
+// このファイルはログアウトによるセッションの無効化（トークンの失効）を管理します
+// セッションは1回のログインを表し、そのログインから発行されたアクセストークン（JWTのsid）と
+// リフレッシュトークン（ファミリー）は同じセッションIDを持ちます
+//
+// JWTはステートレスなため、有効期限までは署名の検証だけでは無効にできません
+// そこで、無効化されたセッションIDを失効リストに記録し、認証ミドルウェアで確認します
+import { REFRESH_TOKEN_TTL_MS } from "../config/index";
+// リフレッシュトークンを無効化する関数をインポートします
+import { getUserFamilies, revokeFamily } from "./refreshToken";
+// セッションに属するSSE接続を検索する関数をインポートします
+import { getClients, getUserClients } from "./client";
+// SSE接続にセッションの終了を通知して閉じる関数をインポートします
+import { endClientSession } from "./event";
+
+// 失効したセッションのIDと、失効リストから削除してよい時刻
+// アクセストークンの有効期間はリフレッシュトークンより短いため、
+// 失効からリフレッシュトークンの有効期間が過ぎれば、そのセッションのトークンはすべて期限切れになっています
+const revokedSessions = new Map<string, number>();
+
+// 失効リストから削除してよいセッションを削除する関数
+const pruneRevoked = (now: number): void => {
+  revokedSessions.forEach((expiresAt, sessionId) => {
+    if (expiresAt <= now) {
+      revokedSessions.delete(sessionId);
+    }
+  });
+};
+
+// セッションが失効しているかどうかを確認する関数
+// 認証ミドルウェアとSSE接続チケットの検証で使用されます
+export const isSessionRevoked = (sessionId: string | undefined): boolean => {
+  return sessionId !== undefined && revokedSessions.has(sessionId);
+};
+
+// セッションを失効させ、そのセッションのSSE接続を閉じる関数
+// アクセストークンを失効リストに記録し、リフレッシュトークンを無効化したうえで、
+// 接続中のストリームに'session-ended'イベントを送信して切断します
+// 戻り値は閉じたSSE接続の数です
+export const revokeSession = (sessionId: string, reason: string): number => {
+  const now = Date.now();
+  pruneRevoked(now);
+  revokedSessions.set(sessionId, now + REFRESH_TOKEN_TTL_MS);
+  revokeFamily(sessionId);
+
+  const targets = getClients().filter(
+    (client) => client.user?.sid === sessionId,
+  );
+  targets.forEach((client) => endClientSession(client, reason));
+  return targets.length;
+};
+
+// ユーザーのすべてのセッションを失効させ、すべてのSSE接続を閉じる関数
+// 「すべての端末からログアウト」で使用されます
+// keepSessionIdを指定した場合は、そのセッション（パスワードを変更したログインなど）を残します
+// 戻り値は閉じたSSE接続の数です
+export const revokeUserSessions = (
+  userId: number,
+  reason: string,
+  keepSessionId?: string,
+): number => {
+  const closed = getUserFamilies(userId)
+    .filter((sessionId) => sessionId !== keepSessionId)
+    .reduce((total, sessionId) => total + revokeSession(sessionId, reason), 0);
+
+  // セッションIDを持たない接続（セッション導入前に発行されたトークンなど）も含めて閉じます
+  const remaining = getUserClients(userId).filter(
+    (client) =>
+      keepSessionId === undefined || client.user?.sid !== keepSessionId,
+  );
+  remaining.forEach((client) => endClientSession(client, reason));
+  return closed + remaining.length;
+};
@@ -0,0 +1,58 @@
+// SSE接続チケットモデルのテスト
+// チケットが一度しか使えないこと、有効期限を過ぎると使えないことを確認します
+import { describe, it, afterEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import { issueTicket, redeemTicket } from "./ticket";
+import { SSE_TICKET_TTL_MS } from "../config/index";
+
+// テストで使用するユーザー
+const user = {
+  id: 1,
+  username: "user01",
+  role: "publisher",
+  sid: "session-1",
+  exp: 1900000000,
+};
+
+describe("SSE接続チケット", () => {
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it("発行したチケットで、発行したユーザーの情報を取得できる", () => {
+    const { ticket, expiresAt } = issueTicket(user);
+
+    assert.ok(expiresAt > Date.now());
+    assert.deepEqual(redeemTicket(ticket), user);
+  });
+
+  it("チケットは一度しか使用できない", () => {
+    const { ticket } = issueTicket(user);
+
+    assert.notEqual(redeemTicket(ticket), null);
+    assert.equal(redeemTicket(ticket), null);
+  });
+
+  it("有効期限を過ぎたチケットは使用できず、期限後に削除される", () => {
+    const { ticket } = issueTicket(user);
+    const now = Date.now();
+    mock.method(Date, "now", () => now + SSE_TICKET_TTL_MS);
+
+    assert.equal(redeemTicket(ticket), null);
+    // 期限切れで失敗したチケットも、時刻が戻った場合に使えないよう削除されています
+    mock.restoreAll();
+    assert.equal(redeemTicket(ticket), null);
+  });
+
+  it("有効期限の直前までは使用できる", () => {
+    const { ticket } = issueTicket(user);
+    const now = Date.now();
+    mock.method(Date, "now", () => now + SSE_TICKET_TTL_MS - 1000);
+
+    assert.notEqual(redeemTicket(ticket), null);
+  });
+
+  it("発行していないチケットは使用できない", () => {
+    assert.equal(redeemTicket("unknown"), null);
+  });
+});
@@ -0,0 +1,80 @@
+// SSE接続チケットモデル
+// このファイルはSSE接続の認証に使用する、使い捨てで有効期間の短いチケットを管理します
+// EventSourceはヘッダーを設定できないため、JWTをクエリパラメータで送ると
+// アクセスログやブラウザの履歴にトークンが残ってしまいます
+// 代わりに、Bearerトークンと引き換えに発行したチケットをクエリパラメータで送ることで、
+// 漏れても数秒で無効になり、一度しか使えない値だけがURLに現れるようにします
+import { randomBytes } from "crypto";
+// チケットの有効期間を設定ファイルからインポートします
+import { SSE_TICKET_TTL_MS } from "../config/index";
+
+// チケットに紐づくユーザー情報の型定義
+// JWTのペイロードと同じ情報を保持します（sidはログインのセッションID、expはトークンの有効期限）
+// チケットで開いたストリームも、元のトークンの有効期限で閉じられます
+export interface TicketUser {
+  id: number;
+  username: string;
+  role: string;
+  sid?: string;
+  exp?: number;
+}
+
+// 発行済みチケットの型定義
+// - user: チケットを発行したユーザー
+// - expiresAt: チケットの有効期限（UNIXタイムスタンプ）
+interface Ticket {
+  user: TicketUser;
+  expiresAt: number;
+}
+
+// 発行済みのチケット
+// チケットの値をキーとするMapで、使用されたチケットはすぐに削除されます
+// メモリ内に保持するため、複数インスタンスで動かす場合は発行と接続が同じインスタンスに届く必要があります
+const tickets = new Map<string, Ticket>();
+
+// 有効期限を過ぎたチケットを削除する関数
+// 使用されずに期限切れになったチケットがメモリに残り続けないようにします
+const pruneExpired = (now: number): void => {
+  tickets.forEach((ticket, value) => {
+    if (ticket.expiresAt <= now) {
+      tickets.delete(value);
+    }
+  });
+};
+
+// チケットを発行する関数
+// 推測できないランダムな値を生成し、ユーザー情報と有効期限を紐づけて保存します
+export const issueTicket = (
+  user: TicketUser,
+): { ticket: string; expiresAt: number } => {
+  const now = Date.now();
+  pruneExpired(now);
+  const ticket = randomBytes(32).toString("base64url");
+  const expiresAt = now + SSE_TICKET_TTL_MS;
+  tickets.set(ticket, {
+    user: {
+      id: user.id,
+      username: user.username,
+      role: user.role,
+      sid: user.sid,
+      exp: user.exp,
+    },
+    expiresAt,
+  });
+  return { ticket, expiresAt };
+};
+
+// チケットを使用する関数
+// チケットが有効な場合は紐づくユーザー情報を返し、チケットを削除します（使い捨て）
+// 存在しない、使用済み、または期限切れのチケットの場合はnullを返します
+export const redeemTicket = (value: string): TicketUser | null => {
+  const ticket = tickets.get(value);
+  if (!ticket) {
+    return null;
+  }
+  tickets.delete(value);
+  if (ticket.expiresAt <= Date.now()) {
+    return null;
+  }
+  return ticket.user;
+};
@@ -1,49 +1,116 @@
 // ユーザーモデルファイル
 // このファイルはユーザー情報の管理と認証に関連する機能を提供します
 // 認証付きSSEエンドポイントで使用されるユーザー情報を定義します
+// ユーザーはユーザーリポジトリ（USER_STOREで選択）に保存されます
+import bcrypt from "bcrypt";
+import { Buffer } from "buffer";
+// ユーザーストアとパスワードの設定をインポートします
+import {
+  USER_STORE,
+  USER_STORE_FILE,
+  BCRYPT_ROUNDS,
+  PASSWORD_MIN_LENGTH,
+  Role,
+} from "../config/index";
+// ユーザーリポジトリのインターフェースと実装をインポートします
+import { UserRepository, createMemoryUserRepository } from "./userRepository";
+import { createFileUserRepository } from "./fileUserRepository";
 
 // ユーザーの型定義
 // 各ユーザーは以下の情報を持ちます：
 // - id: ユーザーの一意の識別子
 // - username: ユーザー名（ログインに使用）
 // - password: ハッシュ化されたパスワード
-// - role: ユーザーの役割（権限管理に使用）
+// - role: ユーザーの役割（viewer / publisher / admin。権限管理に使用）
 export interface User {
   id: number;
   username: string;
   password: string;
-  role: string;
+  role: Role;
 }
 
-// 簡易的なユーザーデータ（開発用）
-// 実際のアプリケーションではデータベースを使用するべきです
-// このサンプルでは、メモリ内の配列を使用しています
-export const users: User[] = [
-  {
-    id: 1,
-    username: "user01",
-    // 'password'のハッシュ値
-    // bcryptでハッシュ化されたパスワードです
-    // 実際のパスワードは'password'です
-    password: "$2b$10$rIC1ORaXrBsIbNL8OjYEbOQoYs492r.Vz7g/MPCnLAYfYrQu7tXcG", // 'password'
-    role: "user",
-  },
-  {
-    id: 2,
-    username: "user02",
-    // 'password'のハッシュ値
-    // こちらも同じく'password'のハッシュ値です
-    password: "$2b$10$rIC1ORaXrBsIbNL8OjYEbOQoYs492r.Vz7g/MPCnLAYfYrQu7tXcG", // 'password'
-    role: "user",
-  },
-];
+// レスポンスとして返すユーザー情報の型定義
+// パスワードのハッシュ値は含めません
+export type PublicUser = Omit<User, "password">;
+
+// ユーザー名として使用できる文字列のパターン
+// 英数字、アンダースコア、ハイフンのみを使用でき、3〜32文字とします
+export const USERNAME_PATTERN = /^[A-Za-z0-9_-]{3,32}$/;
+
+// bcryptが扱えるパスワードの最大バイト数
+// これより長い部分は無視されるため、長すぎるパスワードは受け付けません
+const PASSWORD_MAX_BYTES = 72;
+
+// 設定に応じたユーザーリポジトリを作成する関数
+// USER_STORE=fileの場合はJSONファイルに、memoryの場合はメモリ内にユーザーを保存します
+const createUserRepository = (): UserRepository => {
+  if (USER_STORE === "file") {
+    return createFileUserRepository(USER_STORE_FILE);
+  }
+  return createMemoryUserRepository();
+};
+
+// アプリケーション全体で共有するユーザーリポジトリ
+export const userRepository = createUserRepository();
 
 // ユーザーを検索する関数
 // 指定されたユーザー名を持つユーザーを検索します
 // 認証処理で使用されます
 export const findUserByUsername = (username: string): User | undefined => {
-  // usersの配列から、指定されたユーザー名を持つユーザーを検索します
   // 見つかった場合はそのユーザーオブジェクトを返し、
   // 見つからない場合はundefinedを返します
-  return users.find((user) => user.username === username);
+  return userRepository.findByUsername(username);
+};
+
+// IDでユーザーを検索する関数
+// 指定されたIDを持つユーザーを検索します
+// 特定のユーザーへのメッセージ送信で使用されます
+export const findUserById = (id: number): User | undefined => {
+  return userRepository.findById(id);
+};
+
+// ユーザー情報をレスポンス用の形式に変換する関数
+// パスワードのハッシュ値を取り除きます
+export const toPublicUser = (user: User): PublicUser => ({
+  id: user.id,
+  username: user.username,
+  role: user.role,
+});
+
+// ユーザー名を検証する関数
+// 不正な場合はエラーメッセージを、正しい場合はnullを返します
+export const validateUsername = (username: unknown): string | null => {
+  if (typeof username !== "string" || !USERNAME_PATTERN.test(username)) {
+    return "ユーザー名は英数字・アンダースコア・ハイフンの3〜32文字で指定してください";
+  }
+  return null;
+};
+
+// パスワードを検証する関数
+// 不正な場合はエラーメッセージを、正しい場合はnullを返します
+export const validatePassword = (password: unknown): string | null => {
+  if (
+    typeof password !== "string" ||
+    password.length < PASSWORD_MIN_LENGTH ||
+    Buffer.byteLength(password) > PASSWORD_MAX_BYTES
+  ) {
+    return `パスワードは${PASSWORD_MIN_LENGTH}文字以上、${PASSWORD_MAX_BYTES}バイト以下で指定してください`;
+  }
+  return null;
+};
+
+// パスワードをハッシュ化する関数
+// ハッシュ値にはソルトが含まれるため、同じパスワードでも毎回異なる値になります
+export const hashPassword = (password: string): Promise<string> => {
+  return bcrypt.hash(password, BCRYPT_ROUNDS);
+};
+
+// パスワードがユーザーのパスワードと一致するかを検証する関数
+// bcryptを使用してハッシュ化されたパスワードと入力されたパスワードを比較します
+// ハッシュ値が不正な場合などのエラーは、不一致として扱わずに呼び出し元へ伝えます
+export const verifyPassword = (
+  user: User,
+  password: string,
+): Promise<boolean> => {
+  return bcrypt.compare(password, user.password);
 };
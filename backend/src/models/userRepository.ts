@@ -0,0 +1,89 @@
+// ユーザーリポジトリモデル
+// このファイルはユーザー情報の保存先（ユーザーリポジトリ）のインターフェースとメモリ内実装を定義します
+// 保存先を差し替えられるようにすることで、サーバー再起動後も登録したユーザーが残る永続ストアを利用できます
+import { User } from "./user";
+
+// 新しく作成するユーザーの型定義
+// IDはリポジトリが採番します
+export type NewUser = Omit<User, "id">;
+
+// 更新できるユーザー情報の型定義
+// - password: ハッシュ化されたパスワード
+// - role: ユーザーの役割
+export type UserChanges = Partial<Pick<User, "password" | "role">>;
+
+// 永続ストアに保存される状態の型定義
+// - lastId: 最後に採番されたユーザーID（削除されたユーザーのIDを再利用しないために使用します）
+// - users: 登録されているユーザー
+export interface PersistedUsers {
+  lastId: number;
+  users: User[];
+}
+
+// ユーザーリポジトリのインターフェース
+// メモリ内リポジトリとファイルリポジトリはどちらもこのインターフェースを実装します
+export interface UserRepository {
+  // ユーザー名でユーザーを検索します
+  findByUsername(username: string): User | undefined;
+  // IDでユーザーを検索します
+  findById(id: number): User | undefined;
+  // 登録されているすべてのユーザーをID順に返します
+  list(): User[];
+  // ユーザーを作成します。同じユーザー名のユーザーがすでに存在する場合はnullを返します
+  create(user: NewUser): User | null;
+  // ユーザー情報を更新します。ユーザーが存在しない場合はundefinedを返します
+  update(id: number, changes: UserChanges): User | undefined;
+  // ユーザーを削除します。削除した場合はtrueを返します
+  remove(id: number): boolean;
+  // 保持しているすべてのユーザーと最後に採番されたIDを返します
+  snapshot(): PersistedUsers;
+}
+
+// メモリ内ユーザーリポジトリを作成する関数
+// サーバーのメモリ上にユーザーを保持します。サーバーを再起動するとすべてのユーザーが失われます
+// initialは永続ストアから復元した状態を渡すために使用します
+export const createMemoryUserRepository = (
+  initial: PersistedUsers = { lastId: 0, users: [] },
+): UserRepository => {
+  // IDをキーとするユーザー
+  const users = new Map<number, User>();
+  // 最後に採番されたユーザーID
+  let lastId = initial.lastId;
+
+  initial.users.forEach((user) => {
+    users.set(user.id, { ...user });
+    lastId = Math.max(lastId, user.id);
+  });
+
+  const findByUsername = (username: string): User | undefined => {
+    return [...users.values()].find((user) => user.username === username);
+  };
+
+  return {
+    findByUsername,
+    findById: (id) => users.get(id),
+    list: () => [...users.values()].sort((a, b) => a.id - b.id),
+    create: (user) => {
+      if (findByUsername(user.username)) {
+        return null;
+      }
+      const created = { id: ++lastId, ...user };
+      users.set(created.id, created);
+      return created;
+    },
+    update: (id, changes) => {
+      const user = users.get(id);
+      if (!user) {
+        return undefined;
+      }
+      const updated = { ...user, ...changes };
+      users.set(id, updated);
+      return updated;
+    },
+    remove: (id) => users.delete(id),
+    snapshot: () => ({
+      lastId,
+      users: [...users.values()].sort((a, b) => a.id - b.id),
+    }),
+  };
+};
@@ -0,0 +1,192 @@
+// 管理ルート設定ファイル
+// このファイルは接続中のSSEクライアントを確認・操作する管理APIのルーティングを定義します
+// すべてのエンドポイントは認証済みで、admin役割を持つユーザーのみが利用できます
+import express from "express";
+// 管理APIを処理するコントローラー関数をインポートします
+import {
+  listClients,
+  getUserStats,
+  disconnectClientById,
+  disconnectUserClients,
+  revokeUserSessionsById,
+  sendClientEvent,
+  listUsers,
+  createUser,
+  updateUser,
+  deleteUser,
+  listApiKeys,
+  createApiKey,
+  revokeApiKeyById,
+} from "../controllers/adminController";
+// 認証ミドルウェアと役割チェックミドルウェアをインポートします
+import { authMiddleware, requireRole } from "../middleware/auth";
+// リクエストの入力値を検証するミドルウェアをインポートします
+import { validate, Schema } from "../middleware/validate";
+// ユーザー名とパスワードの形式を検証する関数をインポートします
+import { validateUsername, validatePassword } from "../models/user";
+// APIキーで送信できるイベントの種類をインポートします
+import { API_KEY_EVENT_TYPES } from "../models/apiKey";
+// 入力値の検証に使用する役割の一覧、メッセージの最大文字数、チャンネル名のパターンをインポートします
+import {
+  ROLES,
+  MAX_MESSAGE_LENGTH,
+  CHANNEL_NAME_PATTERN,
+} from "../config/index";
+
+// Expressルーターのインスタンスを作成します
+const router = express.Router();
+
+// URLパラメータのユーザーID
+const userIdParams: Schema = {
+  id: { type: "integer", label: "ユーザーID", min: 1 },
+};
+
+// 切断・ログアウトの理由（省略時は既定の理由）
+const reasonBody: Schema = {
+  reason: { type: "string", label: "理由", maxLength: 200 },
+};
+
+// 役割とパスワードの検証ルール（ユーザーの作成・変更で共通）
+const roleRule = { type: "string", label: "役割", oneOf: ROLES } as const;
+const passwordRule = {
+  type: "string",
+  label: "パスワード",
+  check: validatePassword,
+} as const;
+
+// このルーターのすべてのエンドポイントで認証と役割チェックを行います
+// 認証されていないリクエストは401エラー、管理者以外のリクエストは403エラーで拒否されます
+router.use(authMiddleware, requireRole("admin"), express.json());
+
+// 接続中のクライアント一覧を取得するエンドポイント
+router.get(
+  "/clients",
+  validate({ query: { userId: { type: "integer", label: "ユーザーID" } } }),
+  listClients,
+);
+
+// ユーザーごとの接続統計を取得するエンドポイント
+router.get(
+  "/users/:id/stats",
+  validate({ params: userIdParams }),
+  getUserStats,
+);
+
+// クライアントを強制的に切断するエンドポイント
+router.delete(
+  "/clients/:id",
+  validate({ body: reasonBody }),
+  disconnectClientById,
+);
+
+// ユーザーのすべての接続を強制的に切断するエンドポイント
+router.delete(
+  "/users/:id/clients",
+  validate({ params: userIdParams, body: reasonBody }),
+  disconnectUserClients,
+);
+
+// ユーザーをすべての端末からログアウトさせるエンドポイント
+router.delete(
+  "/users/:id/sessions",
+  validate({ params: userIdParams, body: reasonBody }),
+  revokeUserSessionsById,
+);
+
+// 1つの接続にシステムイベントを送信するエンドポイント
+router.post(
+  "/clients/:id/events",
+  validate({
+    body: {
+      message: {
+        type: "string",
+        required: true,
+        label: "メッセージ",
+        maxLength: MAX_MESSAGE_LENGTH,
+      },
+      type: {
+        type: "string",
+        label: "種類",
+        oneOf: ["info", "warning", "error"],
+      },
+    },
+  }),
+  sendClientEvent,
+);
+
+// ユーザー一覧を取得するエンドポイント
+router.get("/users", listUsers);
+
+// ユーザーを作成するエンドポイント
+router.post(
+  "/users",
+  validate({
+    body: {
+      username: {
+        type: "string",
+        required: true,
+        label: "ユーザー名",
+        check: validateUsername,
+      },
+      password: { ...passwordRule, required: true },
+      role: roleRule,
+    },
+  }),
+  createUser,
+);
+
+// ユーザーの役割・パスワードを変更するエンドポイント
+router.patch(
+  "/users/:id",
+  validate({
+    params: userIdParams,
+    body: { role: roleRule, password: passwordRule },
+  }),
+  updateUser,
+);
+
+// ユーザーを削除するエンドポイント
+router.delete("/users/:id", validate({ params: userIdParams }), deleteUser);
+
+// APIキー一覧を取得するエンドポイント
+router.get("/api-keys", listApiKeys);
+
+// APIキーを発行するエンドポイント
+// channels・eventTypesを省略した場合は、すべてのチャンネル・イベントの種類に送信できます
+router.post(
+  "/api-keys",
+  validate({
+    body: {
+      name: { type: "string", required: true, label: "名前", maxLength: 64 },
+      channels: {
+        type: "array",
+        label: "チャンネル",
+        minItems: 1,
+        maxItems: 100,
+        items: {
+          type: "string",
+          pattern: CHANNEL_NAME_PATTERN,
+          patternMessage: "チャンネル名が不正です",
+        },
+      },
+      eventTypes: {
+        type: "array",
+        label: "イベントの種類",
+        minItems: 1,
+        items: { type: "string", oneOf: API_KEY_EVENT_TYPES },
+      },
+    },
+  }),
+  createApiKey,
+);
+
+// APIキーを失効させるエンドポイント
+router.delete(
+  "/api-keys/:id",
+  validate({ params: { id: { type: "integer", label: "APIキーID", min: 1 } } }),
+  revokeApiKeyById,
+);
+
+// ルーターをエクスポートして、server.tsで使用できるようにします
+// server.tsでは'/admin'プレフィックスでマウントされます
+export default router;
@@ -4,23 +4,173 @@
 import express from "express";
 // 認証コントローラー関数をインポートします
 // loginはユーザー認証を処理し、JWTトークンを発行します
-// logoutはログアウト処理を行います（実際にはクライアント側でトークンを削除）
-import { login, logout } from "../controllers/authController";
+// logoutはログアウト処理を行います（セッションのトークンを失効させます）
+// logoutAllはユーザーのすべてのセッションを失効させます
+// refreshはリフレッシュトークンを使用してトークンを更新します
+// registerは新しいユーザーを登録し、changePasswordはパスワードを変更します
+// issueSseTicketはSSE接続に使用する使い捨てのチケットを発行します
+import {
+  login,
+  register,
+  changePassword,
+  logout,
+  logoutAll,
+  refresh,
+  getMe,
+  issueSseTicket,
+} from "../controllers/authController";
+// 認証ミドルウェアをインポートします
+// チケットの発行などには、Bearerトークンまたは認証クッキーによる認証が必要です
+// csrfProtectionは、認証ミドルウェアを使用せずにクッキーを読み取るエンドポイントのCSRF対策です
+import {
+  authMiddleware,
+  optionalAuthMiddleware,
+  csrfProtection,
+} from "../middleware/auth";
+// ログイン・ユーザー登録のレート制限ミドルウェアをインポートします
+// 接続元IPアドレスごとに試行の回数を制限し、パスワードの総当たりを防ぎます
+import { loginRateLimit } from "../middleware/rateLimit";
+// リクエストの入力値を検証するミドルウェアをインポートします
+import { validate, Schema } from "../middleware/validate";
+// ユーザー名とパスワードの形式を検証する関数をインポートします
+import { validateUsername, validatePassword } from "../models/user";
 
 // Expressルーターのインスタンスを作成します
 // これを使用してエンドポイントを定義します
 const router = express.Router();
 
+// リフレッシュトークンを受け取るエンドポイント（/refresh、/logout）のリクエストボディの検証ルール
+// 省略した場合はrefresh_tokenクッキーを使用します
+const refreshTokenBody: Schema = {
+  refreshToken: {
+    type: "string",
+    label: "リフレッシュトークン",
+    maxLength: 512,
+  },
+};
+
 // ログインエンドポイント
 // '/api/login'へのPOSTリクエストでログイン処理を行います
 // express.json()ミドルウェアを使用して、JSONリクエストボディを解析します
 // これにより、req.bodyからユーザー名とパスワードを取得できます
-router.post("/login", express.json(), login);
+// 続けて失敗した場合は、ユーザー名と接続元IPアドレスの組み合わせごとに一時的にロックアウトされます
+// includeTokensにtrueを指定した場合のみ、トークンをクッキーに加えてレスポンスのボディにも含めます
+router.post(
+  "/login",
+  loginRateLimit,
+  express.json(),
+  validate({
+    body: {
+      username: {
+        type: "string",
+        required: true,
+        label: "ユーザー名",
+        maxLength: 64,
+      },
+      password: {
+        type: "string",
+        required: true,
+        label: "パスワード",
+        maxLength: 1024,
+      },
+      includeTokens: { type: "boolean", label: "トークンをボディに含めるか" },
+    },
+  }),
+  login,
+);
+
+// ユーザー登録エンドポイント
+// '/api/register'へのPOSTリクエストで新しいユーザーを登録します
+// 登録に成功すると、ログインと同じくトークンを発行します
+// ユーザー名とパスワードの形式はユーザーモデルの検証関数で確認します
+router.post(
+  "/register",
+  loginRateLimit,
+  express.json(),
+  validate({
+    body: {
+      username: {
+        type: "string",
+        required: true,
+        label: "ユーザー名",
+        check: validateUsername,
+      },
+      password: {
+        type: "string",
+        required: true,
+        label: "パスワード",
+        check: validatePassword,
+      },
+      includeTokens: { type: "boolean", label: "トークンをボディに含めるか" },
+    },
+  }),
+  register,
+);
+
+// トークン更新エンドポイント
+// '/api/refresh'へのPOSTリクエストで、リフレッシュトークンを使用してトークンを更新します
+// アクセストークンの期限切れ前にクライアントから呼び出されます
+// refresh_tokenクッキーで更新する場合は、X-CSRF-Tokenヘッダーが必要です
+router.post(
+  "/refresh",
+  express.json(),
+  validate({ body: refreshTokenBody }),
+  csrfProtection,
+  refresh,
+);
+
+// ログイン中のユーザー情報の取得エンドポイント
+// '/api/me'へのGETリクエストで、ユーザー情報とアクセストークンの残りの有効期間を返します
+// フロントエンドはトークンを直接扱わず、このエンドポイントでログイン状態を確認します
+router.get("/me", authMiddleware, getMe);
+
+// SSE接続チケット発行エンドポイント
+// '/api/sse-ticket'へのPOSTリクエストで、SSE接続に使用する使い捨てのチケットを発行します
+// authMiddlewareを通過した（認証された）リクエストのみが処理されます
+router.post("/sse-ticket", authMiddleware, issueSseTicket);
 
 // ログアウトエンドポイント
 // '/api/logout'へのPOSTリクエストでログアウト処理を行います
-// 実際のログアウト処理はクライアント側で行われます（トークンの削除）
-router.post("/logout", logout);
+// 現在のセッションのトークンを失効させ、そのセッションのSSE接続を閉じます
+// アクセストークンの期限が切れていても認証クッキーを削除できるよう、認証は任意としています
+router.post(
+  "/logout",
+  express.json(),
+  validate({ body: refreshTokenBody }),
+  csrfProtection,
+  optionalAuthMiddleware,
+  logout,
+);
+
+// すべての端末からのログアウトエンドポイント
+// '/api/logout-all'へのPOSTリクエストで、ユーザーのすべてのセッションを失効させます
+router.post("/logout-all", authMiddleware, logoutAll);
+
+// パスワード変更エンドポイント
+// '/api/password'へのPOSTリクエストでパスワードを変更します
+// 変更すると、このログイン以外のすべてのセッションが失効します
+router.post(
+  "/password",
+  authMiddleware,
+  express.json(),
+  validate({
+    body: {
+      currentPassword: {
+        type: "string",
+        required: true,
+        label: "現在のパスワード",
+        maxLength: 1024,
+      },
+      newPassword: {
+        type: "string",
+        required: true,
+        label: "新しいパスワード",
+        check: validatePassword,
+      },
+    },
+  }),
+  changePassword,
+);
 
 // ルーターをエクスポートして、server.tsで使用できるようにします
 export default router;
@@ -1,12 +1,9 @@
 // SSE（Server-Sent Events）ルート設定ファイル
 // このファイルはSSEエンドポイントのルーティングを定義します
 import express from "express";
-// SSE接続を処理するコントローラー関数をインポートします
-// connectSSEは認証不要のSSE接続を処理し、connectSecureSSEは認証付きSSE接続を処理します
-import { connectSSE, connectSecureSSE } from "../controllers/eventController";
-// 認証ミドルウェアをインポートします
-// 認証付きSSEエンドポイントでユーザー認証を行うために使用されます
-import { authMiddleware } from "../middleware/auth";
+// SSE接続ハンドラーを作成する関数をインポートします
+// 認証の要否や再接続間隔などの設定を渡すだけで、SSEエンドポイントのハンドラーを作成できます
+import { createSSEHandler } from "../controllers/eventController";
 
 // Expressルーターのインスタンスを作成します
 // これを使用してエンドポイントを定義します
@@ -16,13 +13,16 @@ const router = express.Router();
 // '/events'へのGETリクエストでSSE接続を確立します
 // このエンドポイントは認証を必要とせず、誰でもアクセスできます
 // クライアントはこのエンドポイントに接続することでイベントストリームを受信できます
-router.get("/events", connectSSE);
+router.get("/events", ...createSSEHandler({ endpoint: "/events" }));
 
 // 認証付きSSE接続エンドポイント
 // '/secure-events'へのGETリクエストで認証付きSSE接続を確立します
-// authMiddlewareを通過した（認証された）リクエストのみが処理されます
+// requireAuthを指定すると、認証ミドルウェアを通過した（認証された）リクエストのみが処理されます
 // 認証されていないリクエストは401エラーで拒否されます
-router.get("/secure-events", authMiddleware, connectSecureSSE);
+router.get(
+  "/secure-events",
+  ...createSSEHandler({ endpoint: "/secure-events", requireAuth: true }),
+);
 
 // ルーターをエクスポートして、server.tsで使用できるようにします
 export default router;
@@ -6,7 +6,37 @@ import express from "express";
 // これらの関数は接続中のすべてのSSEクライアントにメッセージを送信します
 // sendMessage: 通常の一括送信用コントローラー
 // streamMessage: ストリーミング形式の段階的送信用コントローラー
-import { sendMessage, streamMessage } from "../controllers/messageController";
+// sendUserMessage: 特定のユーザー宛て送信用コントローラー
+import {
+  sendMessage,
+  streamMessage,
+  sendUserMessage,
+} from "../controllers/messageController";
+// 認証ミドルウェアと、役割・チャンネル・APIキーの範囲の権限チェックミドルウェアをインポートします
+// メッセージの送信にはpublisher以上の役割か、APIキーが必要です
+// 認証ミドルウェアは、ユーザー宛て送信では送信者を特定するためにも使用されます
+import {
+  publishAuthMiddleware,
+  requireRole,
+  requireChannelAccess,
+  requireApiKeyScope,
+} from "../middleware/auth";
+// 送信エンドポイントのレート制限ミドルウェアをインポートします
+// 接続元IPアドレスごとと、ユーザーごとの両方で送信の回数を制限します
+import {
+  publishIpRateLimit,
+  publishUserRateLimit,
+} from "../middleware/rateLimit";
+// リクエストの入力値を検証するミドルウェアをインポートします
+import { validate, Schema } from "../middleware/validate";
+// チャンネルが指定されない場合に使用するデフォルトチャンネル名をインポートします
+// 入力値の検証に使用するメッセージの最大文字数、チャンネル名のパターン、役割の一覧もインポートします
+import {
+  DEFAULT_CHANNEL,
+  MAX_MESSAGE_LENGTH,
+  CHANNEL_NAME_PATTERN,
+  ROLES,
+} from "../config/index";
 
 // Expressルーターのインスタンスを作成します
 // これを使用してエンドポイントを定義します
@@ -14,20 +44,86 @@ import { sendMessage, streamMessage } from "../controllers/messageController";
 // コードの構造を整理することができます
 const router = express.Router();
 
+// メッセージ本文の検証ルール
+const messageRule = {
+  type: "string",
+  required: true,
+  label: "メッセージ",
+  maxLength: MAX_MESSAGE_LENGTH,
+} as const;
+
+// チャンネルへの送信（/send-message、/stream-message）のリクエストボディの検証ルール
+// - message: 送信するメッセージ（必須）
+// - channel: 送信先チャンネル（省略時はデフォルトチャンネル）
+// - requiredRole: イベントを受信するために必要な役割（省略可能）
+const publishBody: Schema = {
+  message: messageRule,
+  channel: {
+    type: "string",
+    label: "チャンネル名",
+    pattern: CHANNEL_NAME_PATTERN,
+    patternMessage: "チャンネル名が不正です",
+  },
+  requiredRole: { type: "string", label: "受信に必要な役割", oneOf: ROLES },
+};
+
+// リクエストボディから送信先チャンネルを取得する関数
+// チャンネル権限チェックミドルウェアで使用します（チャンネル名の形式は入力値の検証で確認済みです）
+const bodyChannel = (req: express.Request): string[] => {
+  const channel = req.body?.channel;
+  return [typeof channel === "string" && channel ? channel : DEFAULT_CHANNEL];
+};
+
+// メッセージ送信の権限チェック
+// 認証済みで、publisher以上の役割を持ち、送信先チャンネルに必要な役割を持つユーザーのみが送信できます
+// APIキーで認証した場合は、APIキーに指定されたイベントの種類とチャンネルにのみ送信できます
+// 送信の回数はレート制限で制限します（ユーザー・APIキーごとの制限は認証の後に確認します）
+// eventTypeはエンドポイントが送信するイベントの種類です
+const canPublish = (eventType: string) => [
+  publishIpRateLimit,
+  publishAuthMiddleware,
+  publishUserRateLimit,
+  requireRole("publisher"),
+  express.json(),
+  validate({ body: publishBody }),
+  requireChannelAccess(bodyChannel),
+  requireApiKeyScope(eventType, bodyChannel),
+];
+
 // 全クライアントにメッセージを送信するエンドポイント
 // '/send-message'へのPOSTリクエストでメッセージを送信します
 // express.json()ミドルウェアを使用して、JSONリクエストボディを解析します
 // これにより、req.bodyからメッセージ内容を取得できます
 // このエンドポイントは、メッセージを一度に全て送信する通常の送信方式を使用します
-router.post("/send-message", express.json(), sendMessage);
+router.post("/send-message", ...canPublish("message"), sendMessage);
 
 // 全クライアントにメッセージをストリーミング形式で送信するエンドポイント
 // '/stream-message'へのPOSTリクエストでメッセージを段階的に送信します
 // メッセージは小さなチャンクに分割され、順次送信されます
 // このエンドポイントは、ChatGPTのような「考え中」の表示を実現するために使用されます
 // express.json()ミドルウェアを使用して、JSONリクエストボディを解析します
-// 送信されたメッセージは単語ごとに分割され、100ms間隔で段階的に送信されます
-router.post("/stream-message", express.json(), streamMessage);
+// 送信されたメッセージは単語ごとに分割され、設定された間隔（既定は100ms）で段階的に送信されます
+router.post("/stream-message", ...canPublish("partial-message"), streamMessage);
+
+// 特定のユーザーにメッセージを送信するエンドポイント
+// '/users/:id/messages'へのPOSTリクエストで、指定されたユーザーのすべての接続にメッセージを送信します
+// publisher以上の役割を持つ認証済みユーザーのリクエストのみが処理され、送信者がイベントに含まれます
+// 送信されたイベントは宛先ユーザーの再接続時にのみ再送されます
+// APIキーの場合は、チャンネルを限定していないAPIキーのみが送信できます
+router.post(
+  "/users/:id/messages",
+  publishIpRateLimit,
+  publishAuthMiddleware,
+  publishUserRateLimit,
+  requireRole("publisher"),
+  express.json(),
+  validate({
+    params: { id: { type: "integer", label: "ユーザーID", min: 1 } },
+    body: { message: messageRule },
+  }),
+  requireApiKeyScope("message"),
+  sendUserMessage,
+);
 
 // ルーターをエクスポートして、server.tsで使用できるようにします
 // メインのサーバーファイルでこのルーターをマウントすることで、
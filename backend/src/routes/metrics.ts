@@ -0,0 +1,15 @@
+// メトリクスルート設定ファイル
+// このファイルはPrometheusがメトリクスを収集するためのエンドポイントのルーティングを定義します
+import express from "express";
+// メトリクスを返すコントローラー関数をインポートします
+import { getMetrics } from "../controllers/metricsController";
+
+// Expressルーターのインスタンスを作成します
+const router = express.Router();
+
+// メトリクスエンドポイント
+// '/metrics'へのGETリクエストで、接続数や送信イベント数などのメトリクスを返します
+router.get("/metrics", getMetrics);
+
+// ルーターをエクスポートして、server.tsで使用できるようにします
+export default router;
@@ -0,0 +1,49 @@
+// 開発用ユーザー作成スクリプト
+// このスクリプトはローカル開発用のユーザーをユーザーストア（USER_STORE_FILE）に作成します
+// 使い方: npm run seed
+//
+// すでに同じユーザー名のユーザーが存在する場合は、そのユーザーを変更せずに読み飛ばします
+// 開発用のパスワードは公開されているため、本番環境では実行できません
+import { NODE_ENV, USER_STORE, USER_STORE_FILE, Role } from "../config/index";
+// ユーザーの作成に使用する関数をインポートします
+import { userRepository, hashPassword } from "../models/user";
+// ログ出力用の関数をインポートします
+import { logInfo, logError } from "../utils/logger";
+
+// 作成する開発用ユーザー
+// パスワードはすべて"password"です
+// 役割ごとの動作を確認できるよう、それぞれ異なる役割を持たせます
+const SEED_USERS: { username: string; password: string; role: Role }[] = [
+  { username: "user01", password: "password", role: "publisher" },
+  { username: "user02", password: "password", role: "viewer" },
+  { username: "admin", password: "password", role: "admin" },
+];
+
+const seed = async (): Promise<void> => {
+  if (NODE_ENV === "production") {
+    throw new Error("本番環境（NODE_ENV=production）では実行できません");
+  }
+  // メモリ内ストアはスクリプトの終了とともに失われるため、作成する意味がありません
+  if (USER_STORE !== "file") {
+    throw new Error("USER_STORE=fileの場合のみ実行できます");
+  }
+
+  for (const { username, password, role } of SEED_USERS) {
+    const user = userRepository.create({
+      username,
+      password: await hashPassword(password),
+      role,
+    });
+    if (user) {
+      logInfo(`ユーザー作成 - ユーザー: ${username} - 役割: ${role}`);
+    } else {
+      logInfo(`ユーザーが存在するため読み飛ばします - ユーザー: ${username}`);
+    }
+  }
+  logInfo(`開発用ユーザーの作成完了 - ファイル: ${USER_STORE_FILE}`);
+};
+
+seed().catch((error) => {
+  logError("開発用ユーザーの作成に失敗しました", error);
+  process.exit(1);
+});
@@ -4,10 +4,25 @@ import express from "express";
 // CORSミドルウェアを使用して、異なるオリジン（ドメイン）からのリクエストを許可します
 // SSEはHTTPベースなので、CORSポリシーの対象となります
 import cors from "cors";
-// サーバー設定を読み込みます（ポート番号、フロントエンドURL、最大クライアント数など）
-import { PORT, FRONTEND_URL } from "./config/index";
+// サーバー設定を読み込みます（ポート番号、CORSで許可するオリジン、最大クライアント数など）
+// シャットダウン時の待ち時間と再接続間隔も読み込みます
+// 設定は読み込み時に検証され、不正な値がある場合はここでエラーになりサーバーは起動しません
+import {
+  PORT,
+  CORS_ORIGINS,
+  TRUST_PROXY,
+  SHUTDOWN_TIMEOUT_MS,
+  SHUTDOWN_RETRY_MS,
+  describeConfig,
+  USING_DEFAULT_JWT_SECRET,
+  DEV_PASSWORD_SHORTCUT,
+} from "./config/index";
 // すべてのリクエストをログに記録するミドルウェアをインポートします
 import { loggingMiddleware } from "./middleware/logging";
+// シャットダウン中のリクエストを拒否するミドルウェアをインポートします
+import { shutdownMiddleware, beginShutdown } from "./middleware/shutdown";
+// 存在しないルートと予期しないエラーを共通の形式のJSONで返すハンドラーをインポートします
+import { notFoundHandler, errorHandler } from "./middleware/errorHandler";
 // 認証関連のルート（ログイン、ログアウト）をインポートします
 import authRoutes from "./routes/auth";
 // SSEイベントストリームのルート（/events, /secure-events）をインポートします
@@ -16,8 +31,27 @@ import eventRoutes from "./routes/events";
 // メッセージ送信のルート（/send-message）をインポートします
 // このエンドポイントを通じて、接続中のすべてのクライアントにメッセージを送信できます
 import messageRoutes from "./routes/messages";
+// 管理APIのルート（/admin/clientsなど）をインポートします
+// 接続中のクライアントの確認と切断に使用します（管理者専用）
+import adminRoutes from "./routes/admin";
+// Prometheus形式のメトリクスを返すルート（/metrics）をインポートします
+import metricsRoutes from "./routes/metrics";
 // ログ出力用のユーティリティ関数をインポートします
-import { logInfo } from "./utils/logger";
+import { logInfo, logError, logWarning } from "./utils/logger";
+// アイドル中の接続を維持するためのハートビート開始関数と、
+// 他のインスタンスからイベントを受信するためのブローカー接続関数をインポートします
+// シャットダウン時には、ハートビートの停止、クライアントへの通知、イベントストアの書き出し、
+// ブローカーの切断にも使用します
+import {
+  startHeartbeat,
+  stopHeartbeat,
+  connectBroker,
+  closeAllClients,
+  eventStore,
+  broker,
+} from "./models/event";
+// 送信中のストリーミングの完了を待つ関数をインポートします
+import { drainStreams } from "./controllers/messageController";
 
 // console警告を無視（TypeScriptのESLint設定に関連）
 
@@ -25,13 +59,18 @@ import { logInfo } from "./utils/logger";
 // これがHTTPサーバーの基盤となります
 const app = express();
 
+// X-Forwarded-Forヘッダーを信頼するプロキシを設定します
+// 信頼するプロキシを経由した場合のみ、req.ipがヘッダーのクライアントのアドレスになります
+// 既定（TRUST_PROXY=false）ではヘッダーを無視し、接続元のアドレスを使用します
+app.set("trust proxy", TRUST_PROXY);
+
 // CORSを有効化します
 // SSEはHTTPベースなので、異なるオリジンからアクセスする場合はCORS設定が必要です
-// origin: フロントエンドのURLからのリクエストのみを許可します
+// origin: 設定で許可されたオリジン（既定はフロントエンドのURL）からのリクエストのみを許可します
 // credentials: Cookieなどの認証情報を含むリクエストを許可します（認証付きSSEに必要）
 app.use(
   cors({
-    origin: FRONTEND_URL,
+    origin: CORS_ORIGINS,
     credentials: true,
   }),
 );
@@ -40,6 +79,10 @@ app.use(
 // すべてのリクエストとレスポンスの情報をログに記録します
 app.use(loggingMiddleware);
 
+// シャットダウンミドルウェアを適用します
+// シャットダウン中は新しいSSE接続やメッセージ送信を503エラーで拒否します
+app.use(shutdownMiddleware);
+
 // ルーティングの設定
 // 各種エンドポイントを定義します
 // '/api'プレフィックスを持つルートは認証関連のエンドポイントです
@@ -50,10 +93,36 @@ app.use("/", eventRoutes);
 // ルートパスにメッセージ送信エンドポイントを設定します
 // '/send-message'がここで定義されます
 app.use("/", messageRoutes);
+// '/admin'プレフィックスに管理APIのエンドポイントを設定します
+app.use("/admin", adminRoutes);
+// ルートパスにメトリクスのエンドポイントを設定します
+// '/metrics'がここで定義されます
+app.use("/", metricsRoutes);
+
+// エラーハンドラーの設定
+// すべてのルートの後に登録することで、どのルートにも一致しないリクエストと、
+// ルートで発生したエラー（入力値の検証エラー、JSONの解析エラーなど）を共通の形式で返します
+app.use(notFoundHandler);
+app.use(errorHandler);
 
 // サーバーを指定されたポートで起動します
 // SSEはHTTPサーバー上で動作するため、通常のExpressサーバーと同じ方法で起動します
-app.listen(PORT, () => {
+const server = app.listen(PORT, () => {
+  // 有効な設定をログに出力します
+  // 各設定値がどこ（環境変数、設定ファイル、既定値）から読み込まれたかを確認できます
+  logInfo("有効な設定:");
+  describeConfig().forEach((line) => logInfo(`  ${line}`));
+  if (USING_DEFAULT_JWT_SECRET) {
+    logWarning(
+      "既定のJWT_SECRETを使用しています。本番環境では必ず変更してください",
+    );
+  }
+  if (DEV_PASSWORD_SHORTCUT) {
+    logWarning(
+      '開発用の簡易認証が有効です。パスワード"password"で誰でもログインできます',
+    );
+  }
+
   // サーバー起動情報をログに出力します
   logInfo(`サーバー起動 - ポート: ${PORT} - URL: http://localhost:${PORT}`);
   logInfo("利用可能なエンドポイント:");
@@ -65,8 +134,84 @@ app.listen(PORT, () => {
   logInfo("- GET  /secure-events  : SSEイベントストリーム（認証必要）");
   // 接続中のすべてのクライアントにメッセージを送信するエンドポイント
   logInfo("- POST /send-message   : メッセージ送信");
+  // 特定のユーザーのすべての接続にメッセージを送信するエンドポイント（認証必要）
+  logInfo("- POST /users/:id/messages : ユーザー宛てメッセージ送信");
   // ユーザー認証のためのエンドポイント
   logInfo("- POST /api/login      : ログイン");
+  // 新しいユーザーを登録するエンドポイント
+  logInfo("- POST /api/register   : ユーザー登録");
+  // パスワードを変更するエンドポイント（認証必要）
+  logInfo("- POST /api/password   : パスワード変更");
+  // ログイン中のユーザー情報を返すエンドポイント（認証必要）
+  logInfo("- GET  /api/me         : ログイン中のユーザー情報");
+  // リフレッシュトークンでアクセストークンを更新するエンドポイント
+  logInfo("- POST /api/refresh    : トークン更新");
   // ログアウト用のエンドポイント
   logInfo("- POST /api/logout     : ログアウト");
+  // ユーザーのすべてのセッションを失効させるエンドポイント
+  logInfo("- POST /api/logout-all : すべての端末からログアウト");
+  // SSE接続に使用する使い捨てのチケットを発行するエンドポイント（認証必要）
+  logInfo("- POST /api/sse-ticket : SSE接続チケット発行");
+  // 接続中のクライアントを確認・操作する管理API（管理者のみ）
+  logInfo("- GET  /admin/clients  : 接続中のクライアント一覧（管理者）");
+  // ユーザーを確認・作成・変更・削除する管理API（管理者のみ）
+  logInfo("- GET  /admin/users    : ユーザー一覧（管理者）");
+  // Prometheusがメトリクスを収集するためのエンドポイント
+  logInfo("- GET  /metrics        : Prometheusメトリクス");
+
+  // ハートビートを開始します
+  // プロキシによる切断を防ぎ、書き込みに失敗し続ける接続を検出します
+  startHeartbeat();
+
+  // ブローカーに接続します
+  // 接続できない場合もサーバーは起動したままにし、ブローカーの再接続を待ちます
+  connectBroker().catch((error) => {
+    logError("ブローカーへの接続に失敗しました", error);
+  });
 });
+
+// グレースフルシャットダウン
+// デプロイ時などにSIGTERM/SIGINTを受け取った場合、接続中のクライアントを突然切断せずに停止します
+// 1. 新しい接続とリクエストの受け付けを停止します
+// 2. 送信中のストリーミングの完了を待ちます（制限時間を過ぎたものは中止します）
+// 3. すべてのクライアントに'server-shutdown'イベントと再接続間隔を通知して接続を閉じます
+// 4. イベントストアを書き出し、ブローカーを切断してから終了します
+const shutdown = async (signal: string): Promise<void> => {
+  // 2回目のシグナルを受け取った場合は待たずに終了します
+  if (server.listening === false) {
+    logInfo(`シグナル受信(${signal}) - シャットダウン処理を待たずに終了します`);
+    process.exit(1);
+  }
+  logInfo(`シグナル受信(${signal}) - シャットダウンを開始します`);
+
+  // 1. 新しい接続とリクエストの受け付けを停止します
+  beginShutdown();
+  server.close(() => {
+    logInfo("HTTPサーバー停止完了");
+  });
+  stopHeartbeat();
+
+  try {
+    // 2. 送信中のストリーミングの完了を待ちます
+    await drainStreams(SHUTDOWN_TIMEOUT_MS);
+
+    // 3. すべてのクライアントに通知して接続を閉じます
+    const notified = closeAllClients(SHUTDOWN_RETRY_MS);
+    logInfo(`シャットダウン通知 - クライアント数: ${notified}`);
+    // アイドル状態のKeep-Alive接続も閉じます
+    server.closeIdleConnections();
+
+    // 4. イベントストアを書き出し、ブローカーを切断します
+    await eventStore.flush();
+    await broker.close();
+  } catch (error) {
+    logError("シャットダウン処理中にエラーが発生しました", error);
+    process.exit(1);
+  }
+
+  logInfo("シャットダウン完了");
+  process.exit(0);
+};
+
+process.on("SIGTERM", () => void shutdown("SIGTERM"));
+process.on("SIGINT", () => void shutdown("SIGINT"));
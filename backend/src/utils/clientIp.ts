@@ -0,0 +1,12 @@
+// クライアントIPアドレスユーティリティファイル
+// このファイルはリクエストの送信元のIPアドレスを取得する関数を提供します
+// IPアドレスごとのレート制限・ロックアウト・接続数の上限と、ログの記録に使用します
+import { Request } from "express";
+
+// クライアントのIPアドレスを取得する関数
+// ExpressのTRUST_PROXY（"trust proxy"）設定に従い、信頼するプロキシを経由した場合のみ
+// X-Forwarded-Forヘッダーのアドレスを使用します（既定では接続元のアドレスを使用します）
+// クライアントが指定したX-Forwarded-Forヘッダーをそのまま使用すると、ヘッダーを変えるだけで制限を回避できてしまいます
+export const getClientIP = (req: Request): string => {
+  return req.ip || req.socket.remoteAddress || "unknown";
+};
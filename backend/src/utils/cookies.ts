@@ -0,0 +1,81 @@
+// クッキーユーティリティ
+// このファイルは認証に使用するクッキーの読み書きを提供します
+//
+// - auth_token: アクセストークン（JWT）。HttpOnlyのため、ブラウザのJavaScriptからは読み取れません
+// - refresh_token: リフレッシュトークン。HttpOnlyのため、ブラウザのJavaScriptからは読み取れません
+// - csrf_token: CSRF対策用のトークン。フロントエンドが読み取り、X-CSRF-Tokenヘッダーとして送り返します
+import { Request, Response, CookieOptions } from "express";
+// CSRFトークンの生成に使用します
+import { randomBytes } from "crypto";
+// クッキーの属性を設定ファイルからインポートします
+import { COOKIE_SECURE, COOKIE_SAME_SITE } from "../config/index";
+
+// 認証クッキーの名前
+export const AUTH_COOKIE = "auth_token";
+export const REFRESH_COOKIE = "refresh_token";
+export const CSRF_COOKIE = "csrf_token";
+
+// CSRFトークンを送信するリクエストヘッダーの名前
+export const CSRF_HEADER = "x-csrf-token";
+
+// すべての認証クッキーに共通の属性
+const baseOptions = (): CookieOptions => ({
+  path: "/",
+  secure: COOKIE_SECURE,
+  sameSite: COOKIE_SAME_SITE,
+});
+
+// リクエストからクッキーの値を取得する関数
+// クッキーが見つからない場合はnullを返します
+// 値のパーセントエンコードが不正な場合も、500エラーにせず見つからない場合と同じく扱います
+export const readCookie = (req: Request, name: string): string | null => {
+  const cookie = req.headers.cookie
+    ?.split(";")
+    .map((c) => c.trim())
+    .find((c) => c.startsWith(`${name}=`));
+  if (!cookie) {
+    return null;
+  }
+  try {
+    return decodeURIComponent(cookie.slice(name.length + 1));
+  } catch {
+    return null;
+  }
+};
+
+// ログイン・トークン更新時に認証クッキーを設定する関数
+// アクセストークンとリフレッシュトークンはHttpOnlyで設定し、JavaScriptから読み取れないようにします
+// CSRFトークンはフロントエンドがヘッダーとして送り返せるよう、HttpOnlyにしません
+export const setSessionCookies = (
+  res: Response,
+  tokens: {
+    token: string;
+    expiresIn: number;
+    refreshToken: string;
+    refreshExpiresIn: number;
+  },
+): void => {
+  res.cookie(AUTH_COOKIE, tokens.token, {
+    ...baseOptions(),
+    httpOnly: true,
+    maxAge: tokens.expiresIn * 1000,
+  });
+  res.cookie(REFRESH_COOKIE, tokens.refreshToken, {
+    ...baseOptions(),
+    httpOnly: true,
+    maxAge: tokens.refreshExpiresIn * 1000,
+  });
+  res.cookie(CSRF_COOKIE, randomBytes(32).toString("base64url"), {
+    ...baseOptions(),
+    httpOnly: false,
+    maxAge: tokens.refreshExpiresIn * 1000,
+  });
+};
+
+// ログアウト時などに認証クッキーを削除する関数
+// 設定時と同じ属性を指定しないと、ブラウザによっては削除されないため、HttpOnly属性も合わせます
+export const clearSessionCookies = (res: Response): void => {
+  res.clearCookie(AUTH_COOKIE, { ...baseOptions(), httpOnly: true });
+  res.clearCookie(REFRESH_COOKIE, { ...baseOptions(), httpOnly: true });
+  res.clearCookie(CSRF_COOKIE, { ...baseOptions(), httpOnly: false });
+};
@@ -0,0 +1,93 @@
+// エラーレスポンスユーティリティ
+// このファイルはすべてのエンドポイントで共通のエラーレスポンスの形式を定義します
+//
+// エラーレスポンスは常に次の形式のJSONです
+// { "success": false, "code": "VALIDATION_ERROR", "message": "...", "details": [{ "field": "body.message", "message": "..." }] }
+// - code: エラーの種類を表す機械可読なコード。クライアントはメッセージではなくコードで処理を分岐します
+// - message: 利用者に表示できるエラーメッセージ
+// - details: 入力値の検証エラーの場合のみ、項目ごとのエラー
+import { Response } from "express";
+
+// エラーコードの一覧
+export type ErrorCode =
+  // 入力値が不正です（detailsに項目ごとのエラーが含まれます）
+  | "VALIDATION_ERROR"
+  // リクエストボディがJSONとして解析できません
+  | "INVALID_JSON"
+  // リクエストボディが大きすぎます
+  | "PAYLOAD_TOO_LARGE"
+  // 認証が必要です
+  | "UNAUTHORIZED"
+  // トークン・チケットが無効、または失効しています
+  | "INVALID_TOKEN"
+  // ユーザー名またはパスワードが正しくありません
+  | "INVALID_CREDENTIALS"
+  // CSRFトークンが無効です
+  | "INVALID_CSRF_TOKEN"
+  // 操作を行う権限がありません
+  | "FORBIDDEN"
+  // リソースが見つかりません
+  | "NOT_FOUND"
+  // ユーザー名がすでに使用されています
+  | "USERNAME_TAKEN"
+  // リクエストが多すぎます（レート制限）
+  | "RATE_LIMITED"
+  // ログインに続けて失敗したため、一時的にログインできません
+  | "ACCOUNT_LOCKED"
+  // 同時接続数の上限に達しています
+  | "TOO_MANY_CONNECTIONS"
+  // サーバーが混雑している、またはシャットダウン中です
+  | "SERVICE_UNAVAILABLE"
+  // 上記以外のリクエストの誤り
+  | "BAD_REQUEST"
+  // サーバー内部のエラー
+  | "INTERNAL_ERROR";
+
+// 項目ごとの検証エラーの型定義
+// - field: 項目の位置（"body.message"、"query.userId"など）
+// - message: エラーメッセージ
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+// エラーレスポンスに変換できるエラーの型定義
+// コントローラーやミドルウェアからnext()に渡すと、エラーハンドラーがこの内容でレスポンスを返します
+export interface ApiError extends Error {
+  status: number;
+  code: ErrorCode;
+  details?: FieldError[];
+}
+
+// エラーレスポンスに変換できるエラーを作成する関数
+export const createApiError = (
+  status: number,
+  code: ErrorCode,
+  message: string,
+  details?: FieldError[],
+): ApiError => {
+  return Object.assign(new Error(message), { status, code, details });
+};
+
+// エラーレスポンスに変換できるエラーかどうかを確認する関数
+export const isApiError = (error: unknown): error is ApiError => {
+  return (
+    error instanceof Error &&
+    typeof (error as ApiError).status === "number" &&
+    typeof (error as ApiError).code === "string"
+  );
+};
+
+// エラーレスポンスを送信する関数
+// Retry-Afterなどのヘッダーが必要な場合は、呼び出し前にresに設定します
+export const sendError = (
+  res: Response,
+  status: number,
+  code: ErrorCode,
+  message: string,
+  details?: FieldError[],
+): void => {
+  res
+    .status(status)
+    .json({ success: false, code, message, ...(details ? { details } : {}) });
+};
@@ -43,7 +43,7 @@ export const logDebug = (message: string): void => {
 // SSE接続が確立されたときにログを記録します
 // クライアントID、IPアドレス、オプションでユーザー情報を記録します
 export const logSSEConnection = (
-  clientId: number,
+  clientId: string,
   clientIP: string,
   userInfo?: string,
 ): void => {
@@ -59,7 +59,7 @@ export const logSSEConnection = (
 // SSE接続が終了したときにログを記録します
 // クライアントID、接続時間（秒）、オプションでユーザー情報を記録します
 export const logSSEDisconnection = (
-  clientId: number,
+  clientId: string,
   duration: number,
   userInfo?: string,
 ): void => {
@@ -109,3 +109,18 @@ export const logMessageSent = (
     `メッセージ送信 - 内容: "${message}" - 送信先: ${recipientCount}クライアント - 送信元: ${clientIP}`,
   );
 };
+
+// 低速クライアントログ
+// 送信待ちのデータが上限を超えたクライアントへの対応をログに記録します
+// クライアントID、実施した対応、送信待ちのバイト数を記録します
+export const logSlowConsumer = (
+  clientId: string,
+  action: string,
+  bufferedBytes: number,
+): void => {
+  // 低速クライアントへの対応をWARNINGレベルでログに記録します
+  // イベントの破棄や切断はデータの欠落につながるため、警告として記録されます
+  logWarning(
+    `低速クライアント - クライアントID: ${clientId} - 対応: ${action} - 送信待ち: ${bufferedBytes}バイト`,
+  );
+};
@@ -0,0 +1,208 @@
+// メトリクスユーティリティ
+// このファイルはPrometheus形式のメトリクス（カウンター、ゲージ、ヒストグラム）を提供します
+// /metricsエンドポイントでテキスト形式に変換され、Prometheusから定期的に収集されます
+// 外部ライブラリは使用せず、Prometheusのテキスト形式（バージョン0.0.4）を直接出力します
+
+// ラベルの型定義
+// 例: { endpoint: "/events", authenticated: "false" }
+type Labels = Record<string, string>;
+
+// メトリクスの共通インターフェース
+// render()はPrometheusのテキスト形式の行を返します
+interface Metric {
+  render(): string[];
+}
+
+// 登録されているすべてのメトリクス
+const registry: Metric[] = [];
+
+// ラベルの値をエスケープする関数
+// バックスラッシュ、ダブルクォート、改行はエスケープが必要です
+const escapeLabelValue = (value: string): string => {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+};
+
+// ラベルを {name="value",...} 形式の文字列に変換する関数
+// ラベルの順序によって別の系列にならないよう、名前順に並べます
+const formatLabels = (labels: Labels): string => {
+  const entries = Object.keys(labels)
+    .sort()
+    .map((name) => `${name}="${escapeLabelValue(labels[name])}"`);
+  return entries.length > 0 ? `{${entries.join(",")}}` : "";
+};
+
+// HELPとTYPEの行を作成する関数
+const header = (name: string, help: string, type: string): string[] => [
+  `# HELP ${name} ${help}`,
+  `# TYPE ${name} ${type}`,
+];
+
+// カウンターを作成する関数
+// 単調増加する値（接続数の累計、送信バイト数など）に使用します
+export const createCounter = (name: string, help: string) => {
+  const values = new Map<string, number>();
+  registry.push({
+    render: () => [
+      ...header(name, help, "counter"),
+      ...[...values].map(([labels, value]) => `${name}${labels} ${value}`),
+    ],
+  });
+  return {
+    inc: (labels: Labels = {}, amount = 1): void => {
+      const key = formatLabels(labels);
+      values.set(key, (values.get(key) ?? 0) + amount);
+    },
+  };
+};
+
+// ゲージを作成する関数
+// 増減する値（現在の接続数など）に使用します
+export const createGauge = (name: string, help: string) => {
+  const values = new Map<string, number>();
+  registry.push({
+    render: () => [
+      ...header(name, help, "gauge"),
+      ...[...values].map(([labels, value]) => `${name}${labels} ${value}`),
+    ],
+  });
+  const add = (labels: Labels, amount: number): void => {
+    const key = formatLabels(labels);
+    values.set(key, (values.get(key) ?? 0) + amount);
+  };
+  return {
+    inc: (labels: Labels = {}): void => add(labels, 1),
+    dec: (labels: Labels = {}): void => add(labels, -1),
+  };
+};
+
+// ヒストグラムを作成する関数
+// 値の分布（処理時間、接続時間など）を、指定された上限（buckets）ごとの件数として記録します
+export const createHistogram = (
+  name: string,
+  help: string,
+  buckets: number[],
+) => {
+  // ラベルごとの集計値
+  // countsは各上限以下の観測値の件数（累積ではなく、出力時に累積します）
+  const series = new Map<
+    string,
+    { labels: Labels; counts: number[]; sum: number; count: number }
+  >();
+  registry.push({
+    render: () => {
+      const lines = header(name, help, "histogram");
+      series.forEach(({ labels, counts, sum, count }) => {
+        let cumulative = 0;
+        buckets.forEach((le, index) => {
+          cumulative += counts[index];
+          lines.push(
+            `${name}_bucket${formatLabels({ ...labels, le: String(le) })} ${cumulative}`,
+          );
+        });
+        lines.push(
+          `${name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`,
+        );
+        lines.push(`${name}_sum${formatLabels(labels)} ${sum}`);
+        lines.push(`${name}_count${formatLabels(labels)} ${count}`);
+      });
+      return lines;
+    },
+  });
+  return {
+    observe: (labels: Labels, value: number): void => {
+      const key = formatLabels(labels);
+      let entry = series.get(key);
+      if (!entry) {
+        entry = { labels, counts: buckets.map(() => 0), sum: 0, count: 0 };
+        series.set(key, entry);
+      }
+      // 観測値以上の最小の上限に加算します（上限を超える値は+Infのみに含まれます）
+      const index = buckets.findIndex((le) => value <= le);
+      if (index !== -1) {
+        entry.counts[index]++;
+      }
+      entry.sum += value;
+      entry.count++;
+    },
+  };
+};
+
+// すべてのメトリクスをPrometheusのテキスト形式で出力する関数
+// /metricsエンドポイントのレスポンスとして使用されます
+export const renderMetrics = (): string => {
+  return registry.flatMap((metric) => metric.render()).join("\n") + "\n";
+};
+
+// ===== アプリケーションのメトリクス =====
+
+// 現在接続中のSSEクライアント数（エンドポイントと認証状態ごと）
+export const sseConnectedClients = createGauge(
+  "sse_connected_clients",
+  "Number of currently connected SSE clients.",
+);
+
+// SSE接続が確立された回数
+export const sseConnectionsOpenedTotal = createCounter(
+  "sse_connections_opened_total",
+  "Total number of SSE connections opened.",
+);
+
+// SSE接続が終了した回数
+export const sseConnectionsClosedTotal = createCounter(
+  "sse_connections_closed_total",
+  "Total number of SSE connections closed.",
+);
+
+// SSE接続が拒否された回数（理由ごと）
+export const sseConnectionsRejectedTotal = createCounter(
+  "sse_connections_rejected_total",
+  "Total number of SSE connections rejected.",
+);
+
+// クライアントに送信したイベントの数（イベントの種類ごと）
+export const sseEventsSentTotal = createCounter(
+  "sse_events_sent_total",
+  "Total number of events written to SSE clients, by event type.",
+);
+
+// 再接続時に再送したイベントの数
+export const sseEventsReplayedTotal = createCounter(
+  "sse_events_replayed_total",
+  "Total number of events replayed to reconnecting clients.",
+);
+
+// クライアントに書き込んだバイト数
+export const sseBytesWrittenTotal = createCounter(
+  "sse_bytes_written_total",
+  "Total number of bytes written to SSE clients.",
+);
+
+// SSE接続の維持時間（秒）
+export const sseConnectionDurationSeconds = createHistogram(
+  "sse_connection_duration_seconds",
+  "Duration of SSE connections in seconds.",
+  [1, 5, 15, 60, 300, 900, 1800, 3600],
+);
+
+// ログイン試行の回数（結果ごと）
+export const loginAttemptsTotal = createCounter(
+  "login_attempts_total",
+  "Total number of login attempts, by result.",
+);
+
+// レート制限で拒否したリクエストの数（制限の種類ごと）
+export const rateLimitedRequestsTotal = createCounter(
+  "rate_limited_requests_total",
+  "Total number of requests rejected by rate limits, by limiter.",
+);
+
+// HTTPリクエストの処理時間（秒）
+// SSEストリームは接続時間として別に記録するため含みません
+export const httpRequestDurationSeconds = createHistogram(
+  "http_request_duration_seconds",
+  "Duration of HTTP requests in seconds.",
+  [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+);
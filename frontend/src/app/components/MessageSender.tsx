@@ -21,10 +21,14 @@
  *
  * どちらの方法でも、送信されたメッセージは最終的にSSE接続を通じて
  * すべてのクライアントに配信されます。
+ *
+ * メッセージを送信できるのは、publisher以上の役割を持つユーザーのみです。
+ * viewerのユーザーにはフォームを無効にして、その理由を表示します。
  */
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 // Reactのフックをインポート
+// useEffect: 副作用を扱うためのフック（認証状態の監視）
 // useState: コンポーネントの状態を管理するためのフック（メッセージ内容、送信状態など）
 
 import { sendMessage, streamMessage } from "../lib/api";
@@ -32,6 +36,14 @@ import { sendMessage, streamMessage } from "../lib/api";
 // sendMessage: 通常の一括送信を行う関数（メッセージ全体を一度に送信）
 // streamMessage: ストリーミング形式（段階的）送信を行う関数（ChatGPTのような表示効果）
 
+import { getCurrentUser, canPublish } from "../lib/auth";
+// 認証関連の関数をインポート
+// getCurrentUser: 現在のユーザー情報を取得する関数
+// canPublish: ユーザーがメッセージを送信できる役割かどうかを判定する関数
+
+import { formatApiError } from "../lib/errors";
+// APIエラーを画面に表示する文字列に変換する関数をインポート
+
 /**
  * MessageSenderコンポーネント
  *
@@ -52,6 +64,35 @@ export default function MessageSender() {
   // true: ストリーミング形式の段階的送信モード（ChatGPTのような表示）
   const [isStreamMode, setIsStreamMode] = useState(false);
 
+  // メッセージを送信する権限があるかどうかを示すフラグ
+  // ユーザー情報を取得するまでは送信できるものとして扱い、フォームがちらつかないようにします
+  const [isPublisher, setIsPublisher] = useState(true);
+
+  // 送信に失敗した場合に表示するエラーメッセージ
+  // サーバーが返したメッセージ（文字数の上限、レート制限など）をそのまま表示します
+  const [error, setError] = useState<string | null>(null);
+
+  // コンポーネントのマウント時と認証状態変更時に、送信権限を確認する
+  useEffect(() => {
+    // ユーザー情報を取得して送信権限を更新する関数
+    const checkRole = async () => {
+      setIsPublisher(canPublish(await getCurrentUser()));
+    };
+
+    void checkRole();
+
+    // ログイン/ログアウト時やトークン更新時に送信権限を確認し直す
+    const handleAuthStateChanged = () => {
+      void checkRole();
+    };
+    window.addEventListener("auth-state-changed", handleAuthStateChanged);
+
+    // クリーンアップ関数
+    return () => {
+      window.removeEventListener("auth-state-changed", handleAuthStateChanged);
+    };
+  }, []);
+
   /**
    * フォーム送信ハンドラー
    * フォームが送信されたときに実行される関数
@@ -65,29 +106,30 @@ export default function MessageSender() {
     // 空のメッセージは送信しない
     if (!message.trim()) return;
 
-    // 送信中フラグをセット
+    // 送信中フラグをセットし、前回のエラーメッセージを消去
     setIsSending(true);
+    setError(null);
 
     try {
       // ストリーミングモードに応じて適切な送信関数を呼び出す
       // isStreamMode=trueの場合はstreamMessage関数を使用（段階的送信）
       // isStreamMode=falseの場合はsendMessage関数を使用（一括送信）
-      const success = isStreamMode
+      const apiError = isStreamMode
         ? await streamMessage(message)
         : await sendMessage(message);
 
       // 送信成功時の処理
-      if (success) {
+      if (!apiError) {
         // 入力フィールドをクリア
         setMessage("");
       } else {
-        // 送信失敗時のエラーメッセージ
-        alert("メッセージの送信に失敗しました。");
+        // 送信失敗時は、サーバーが返したエラーメッセージをフォームの下に表示
+        setError(formatApiError(apiError));
       }
     } catch (error) {
       // 例外発生時のエラーハンドリング
       console.error("送信エラー:", error);
-      alert("メッセージの送信中にエラーが発生しました。");
+      setError("メッセージの送信中にエラーが発生しました。");
     } finally {
       // 処理完了後、送信中フラグを解除
       setIsSending(false);
@@ -144,12 +186,12 @@ export default function MessageSender() {
             onChange={(e) => setMessage(e.target.value)} // 入力時に状態を更新
             placeholder="送信するメッセージを入力"
             className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-900 text-[var(--foreground)] focus:outline-none focus:ring-2 focus:ring-blue-500"
-            disabled={isSending} // 送信中は入力不可
+            disabled={isSending || !isPublisher} // 送信中または権限がない場合は入力不可
           />
           {/* 送信ボタン */}
           <button
             type="submit"
-            disabled={isSending || !message.trim()} // 送信中または空メッセージの場合は無効
+            disabled={isSending || !isPublisher || !message.trim()} // 送信中、権限がない場合、または空メッセージの場合は無効
             className="px-6 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
           >
             {/* 状態に応じてボタンのテキストを変更 */}
@@ -160,6 +202,23 @@ export default function MessageSender() {
                 : "送信"}
           </button>
         </div>
+
+        {/* 送信に失敗した場合のエラーメッセージ */}
+        {error && (
+          <p
+            className="text-sm text-red-600 dark:text-red-400"
+            role="alert"
+          >
+            {error}
+          </p>
+        )}
+
+        {/* 送信権限がない場合の説明 */}
+        {!isPublisher && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            メッセージを送信するには、publisher以上の役割が必要です。
+          </p>
+        )}
       </div>
     </form>
   );
@@ -26,11 +26,11 @@ import { useEffect, useState } from "react";
 // useEffect: 副作用を扱うためのフック（認証状態の監視など）
 // useState: コンポーネントの状態を管理するためのフック
 
-import { isAuthenticated, getCurrentUser, logout } from "../lib/auth";
+import { getCurrentUser, logout, startTokenRenewal } from "../lib/auth";
 // 認証関連の関数をインポート
-// isAuthenticated: ユーザーが認証済みかどうかを確認する関数
-// getCurrentUser: 現在のユーザー情報を取得する関数
+// getCurrentUser: 現在のユーザー情報を取得する関数（未認証の場合はnull）
 // logout: ログアウト処理を行う関数
+// startTokenRenewal: アクセストークンの自動更新を開始する関数
 
 import ThemeSwitcher from "./ThemeSwitcher";
 // テーマ切り替えコンポーネントをインポート
@@ -61,30 +61,27 @@ export default function NavBar() {
   useEffect(() => {
     // 認証状態をチェックする関数
     // クライアントサイドでのみ実行される
-    const checkAuth = () => {
-      // ユーザーが認証済みかどうかを確認
-      const auth = isAuthenticated();
+    // ユーザー情報はサーバー（/api/me）に問い合わせるため、非同期で取得します
+    const checkAuth = async () => {
+      // 現在のユーザー情報を取得（未認証の場合はnull）
+      const user = await getCurrentUser();
       // 認証状態を更新
-      setAuthenticated(auth);
-
-      // 認証済みの場合、ユーザー情報を取得
-      if (auth) {
-        const user = getCurrentUser();
-        // ユーザー名を設定（ユーザー情報がない場合は空文字）
-        setUsername(user?.username || "");
-      } else {
-        // 未認証の場合、ユーザー名をクリア
-        setUsername("");
-      }
+      setAuthenticated(user !== null);
+      // ユーザー名を設定（未認証の場合は空文字）
+      setUsername(user?.username || "");
     };
 
     // 初期認証状態のチェック
-    checkAuth();
+    void checkAuth();
+
+    // アクセストークンの自動更新を開始
+    // ナビゲーションバーはすべてのページに表示されるため、ここで一度だけ開始します
+    const stopTokenRenewal = startTokenRenewal();
 
     // 認証状態変更イベントのハンドラー
     // ログイン/ログアウト時に呼び出される
     const handleAuthStateChanged = () => {
-      checkAuth();
+      void checkAuth();
     };
 
     // 認証状態変更イベントのリスナーを登録
@@ -93,6 +90,7 @@ export default function NavBar() {
 
     // コンポーネントのアンマウント時にイベントリスナーを削除（クリーンアップ）
     return () => {
+      stopTokenRenewal();
       window.removeEventListener("auth-state-changed", handleAuthStateChanged);
     };
   }, []); // 空の依存配列は、このエフェクトがコンポーネントのマウント時に1回だけ実行されることを意味します
@@ -100,11 +98,13 @@ export default function NavBar() {
   /**
    * ログアウト処理を行う関数
    * ログアウトボタンがクリックされたときに実行される
+   *
+   * @param allDevices - すべての端末からログアウトするかどうか
    */
-  const handleLogout = async () => {
+  const handleLogout = async (allDevices = false) => {
     // ログアウト処理を実行
     // サーバーにログアウトリクエストを送信し、クッキーからトークンを削除
-    await logout();
+    await logout(allDevices);
 
     // 認証状態とユーザー名をリセット
     setAuthenticated(false);
@@ -146,11 +146,18 @@ export default function NavBar() {
                 </span>
                 {/* ログアウトボタン */}
                 <button
-                  onClick={handleLogout}
+                  onClick={() => handleLogout()}
                   className="bg-red-500 hover:bg-red-600 text-white px-3 py-1 rounded text-sm"
                 >
                   ログアウト
                 </button>
+                {/* すべての端末からログアウトするボタン */}
+                <button
+                  onClick={() => handleLogout(true)}
+                  className="ml-2 border border-red-500 text-red-500 hover:bg-red-50 dark:hover:bg-gray-700 px-3 py-1 rounded text-sm"
+                >
+                  すべての端末からログアウト
+                </button>
               </div>
             ) : null}
           </div>
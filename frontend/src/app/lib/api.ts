@@ -21,8 +21,21 @@
 
 // 認証関連の関数をインポート
 // isAuthenticated: ユーザーが認証済みかどうかを確認する関数
-// getAuthToken: 認証トークンを取得する関数
-import { isAuthenticated, getAuthToken } from "./auth";
+// clearSession: クライアント側の認証情報を削除する関数
+// refreshAccessToken: リフレッシュトークンでアクセストークンを更新する関数
+// getCsrfHeaders: CSRF対策用のリクエストヘッダーを取得する関数
+import {
+  isAuthenticated,
+  clearSession,
+  refreshAccessToken,
+  getCsrfHeaders,
+} from "./auth";
+
+// APIエラー関連の関数をインポート
+// ApiError: サーバーが返したエラーの型
+// readApiError: エラーレスポンスからAPIエラーを作成する関数
+// networkError: サーバーに接続できなかった場合のAPIエラーを作成する関数
+import { ApiError, readApiError, networkError } from "./errors";
 
 /**
  * 接続状態の型定義
@@ -174,6 +187,15 @@ export function connectToEvents(handlers: EventHandlers): {
   // 再接続用のタイマーID
   let reconnectTimer: NodeJS.Timeout | null = null;
 
+  // close()が呼ばれたかどうか
+  // チケットの取得中に接続が閉じられた場合に、新しい接続を作成しないために使用します
+  let closed = false;
+
+  // 最後に受信したイベントID
+  // 新しいチケットで接続し直すとEventSourceが作り直され、ブラウザはLast-Event-IDヘッダーを送らないため、
+  // ここに記録しておき、再接続時にURLのlastEventIdパラメータで送信します
+  let lastEventId = "";
+
   // ===== ステップ2: 接続状態を更新する関数 =====
 
   /**
@@ -202,8 +224,20 @@ export function connectToEvents(handlers: EventHandlers): {
    * @param source - イベントリスナーを設定するEventSourceオブジェクト
    */
   function setupEventListeners(source: EventSource) {
+    /**
+     * 受信したイベントのIDを記録する関数
+     *
+     * @param event - 受信したイベント（IDを持たないイベントでは、直前に受信したIDが入っています）
+     */
+    function rememberEventId(event: { lastEventId: string }) {
+      if (event.lastEventId) {
+        lastEventId = event.lastEventId;
+      }
+    }
+
     // 1. 通常メッセージのリスナー
     source.addEventListener("message", (event) => {
+      rememberEventId(event);
       try {
         // JSONデータをJavaScriptオブジェクトに変換
         const messageData = JSON.parse(event.data);
@@ -220,6 +254,7 @@ export function connectToEvents(handlers: EventHandlers): {
 
     // 2. システムメッセージのリスナー
     source.addEventListener("system", (event) => {
+      rememberEventId(event);
       try {
         // JSONデータをJavaScriptオブジェクトに変換
         const systemData = JSON.parse(event.data);
@@ -236,6 +271,7 @@ export function connectToEvents(handlers: EventHandlers): {
 
     // 3. 部分的なメッセージ（ストリーミング）のリスナー
     source.addEventListener("partial-message", (event) => {
+      rememberEventId(event);
       try {
         // JSONデータをJavaScriptオブジェクトに変換
         const partialData = JSON.parse(event.data);
@@ -250,7 +286,104 @@ export function connectToEvents(handlers: EventHandlers): {
       }
     });
 
-    // 4. 接続成功時のハンドラー
+    // 4. 再送欠落通知のリスナー
+    // 再接続時に要求したイベントがサーバーのキャッシュから削除されていた場合に届きます
+    // システムメッセージとして表示し、ユーザーにデータの欠落を知らせます
+    source.addEventListener("replay-gap", (event) => {
+      try {
+        // JSONデータをJavaScriptオブジェクトに変換
+        const gapData = JSON.parse(event.data);
+
+        // ハンドラーが設定されていれば呼び出す
+        if (handlers.onSystem) {
+          handlers.onSystem(gapData);
+        }
+      } catch (error) {
+        // JSONの解析に失敗した場合
+        console.error("再送欠落通知の解析に失敗しました:", error);
+      }
+    });
+
+    // 5. 接続退去通知のリスナー
+    // 同じユーザーの接続数が上限に達し、新しいタブの接続が優先された場合に届きます
+    // 再接続すると他のタブの接続を切断し合うことになるため、再接続せずに接続を終了します
+    source.addEventListener("connection-evicted", (event) => {
+      try {
+        // JSONデータをJavaScriptオブジェクトに変換
+        const evictedData = JSON.parse(event.data);
+
+        // ハンドラーが設定されていれば呼び出す
+        if (handlers.onSystem) {
+          handlers.onSystem(evictedData);
+        }
+      } catch (error) {
+        // JSONの解析に失敗した場合
+        console.error("接続退去通知の解析に失敗しました:", error);
+      }
+
+      // EventSourceの自動再接続を止め、接続状態を「切断」に更新
+      source.close();
+      if (sseConnection === source) {
+        sseConnection = null;
+      }
+      notifyConnectionStateChange("disconnected");
+    });
+
+    // 6. セッション終了通知のリスナー
+    // ログアウト（他の端末からの「すべての端末からログアウト」を含む）によって
+    // サーバー側でセッションが失効した場合に届きます
+    // トークンはすでに使用できないため、再接続せずに保存している認証情報を削除します
+    source.addEventListener("session-ended", (event) => {
+      try {
+        // JSONデータをJavaScriptオブジェクトに変換
+        const sessionData = JSON.parse(event.data);
+
+        // ハンドラーが設定されていれば呼び出す
+        if (handlers.onSystem) {
+          handlers.onSystem(sessionData);
+        }
+      } catch (error) {
+        // JSONの解析に失敗した場合
+        console.error("セッション終了通知の解析に失敗しました:", error);
+      }
+
+      // EventSourceの自動再接続を止め、接続状態を「切断」に更新
+      source.close();
+      if (sseConnection === source) {
+        sseConnection = null;
+      }
+      notifyConnectionStateChange("disconnected");
+
+      // 認証情報を削除し、認証状態の変更を通知
+      // これにより、未認証のイベントストリームへの接続に切り替わります
+      clearSession();
+    });
+
+    // 7. 認証期限切れ通知のリスナー
+    // アクセストークンの有効期限が近づくと届き、有効期限になるとサーバーから接続が閉じられます
+    // 通常のネットワーク障害とは異なり、同じ認証情報で再接続しても接続できないため、
+    // 再接続を待たずにトークンを更新します
+    source.addEventListener("auth-expired", async () => {
+      console.log("認証の有効期限が近づいたため、トークンを更新します");
+
+      // EventSourceの自動再接続を止める（使用済みのチケットでは再接続できないため）
+      source.close();
+      if (sseConnection === source) {
+        sseConnection = null;
+      }
+
+      // トークンを更新
+      // 成功した場合は認証状態変更イベントが発行され、新しい認証情報で接続が再確立されます
+      // リフレッシュトークンが無効な場合はログアウト状態になり、未認証の接続に切り替わります
+      const refreshed = await refreshAccessToken();
+
+      // ネットワークエラーなどで更新できなかった場合は、通常の切断として再接続を試みる
+      if (!refreshed && !closed) {
+        handleConnectionClosed();
+      }
+    });
+
+    // 8. 接続成功時のハンドラー
     source.onopen = () => {
       // 接続成功したので再接続カウンターをリセット
       reconnectAttempts = 0;
@@ -259,7 +392,7 @@ export function connectToEvents(handlers: EventHandlers): {
       notifyConnectionStateChange("connected");
     };
 
-    // 5. エラー発生時のハンドラー
+    // 9. エラー発生時のハンドラー
     source.onerror = (error) => {
       console.error("SSE接続でエラーが発生しました:", error);
 
@@ -318,7 +451,7 @@ export function connectToEvents(handlers: EventHandlers): {
 
     // 5. 指定時間後に再接続を実行
     reconnectTimer = setTimeout(() => {
-      startConnection();
+      void startConnection();
     }, waitTimeMs);
   }
 
@@ -326,8 +459,14 @@ export function connectToEvents(handlers: EventHandlers): {
 
   /**
    * SSE接続を開始する関数
+   *
+   * 認証済みの場合は、接続のたびにSSE接続チケットを取得してURLに追加します。
+   * チケットは一度しか使えないため、EventSourceの自動再接続は401エラーになり、
+   * onerrorからhandleConnectionClosed()を経由して新しいチケットで再接続されます。
+   * 新しいEventSourceはLast-Event-IDヘッダーを送らないため、最後に受信したイベントIDを
+   * lastEventIdパラメータで送信し、切断中に失われたイベントを再送してもらいます。
    */
-  function startConnection() {
+  async function startConnection() {
     // 1. 既存の接続があれば閉じる
     if (sseConnection) {
       sseConnection.close();
@@ -339,27 +478,53 @@ export function connectToEvents(handlers: EventHandlers): {
     notifyConnectionStateChange(connectionState);
 
     // 3. 接続先URLを決定（認証状態によって異なる）
-    let serverUrl = isAuthenticated()
+    // 認証状態はサーバーへの問い合わせ結果のため、確認中に接続が閉じられた場合は何もしない
+    const authenticated = await isAuthenticated();
+    if (closed) {
+      return;
+    }
+    const serverUrl = authenticated
       ? `${process.env.NEXT_PUBLIC_API_URL}/secure-events` // 認証済みの場合
       : `${process.env.NEXT_PUBLIC_API_URL}/events`; // 未認証の場合
+    const params = new URLSearchParams();
+
+    // 4. 認証済みの場合はSSE接続チケットを取得してURLに追加
+    // 認証クッキーはHttpOnlyのためJavaScriptから読み取れず、またトークンをURLに含めると
+    // アクセスログやブラウザの履歴に残ってしまうため、使い捨てで数秒しか有効でないチケットを使用します
+    if (authenticated) {
+      const ticket = await fetchSseTicket();
+
+      // チケットの取得中に接続が閉じられた場合は何もしない
+      if (closed) {
+        return;
+      }
 
-    // 4. 認証済みの場合はトークンをURLに追加
-    if (isAuthenticated()) {
-      const authToken = getAuthToken();
-      if (authToken) {
-        serverUrl += `?token=${encodeURIComponent(authToken)}`;
+      // チケットを取得できなかった場合は、接続失敗として再接続を試みる
+      if (!ticket) {
+        handleConnectionClosed();
+        return;
       }
+      params.set("ticket", ticket);
+    }
+
+    // 5. 再接続の場合は最後に受信したイベントIDをURLに追加
+    if (lastEventId) {
+      params.set("lastEventId", lastEventId);
     }
+    const query = params.toString();
 
-    // 5. EventSourceの設定オプション
+    // 6. EventSourceの設定オプション
     const connectionOptions = {
       withCredentials: true, // クッキーを送信するために必要
     };
 
-    // 6. 新しいEventSourceオブジェクトを作成して接続開始
-    sseConnection = new EventSource(serverUrl, connectionOptions);
+    // 7. 新しいEventSourceオブジェクトを作成して接続開始
+    sseConnection = new EventSource(
+      query ? `${serverUrl}?${query}` : serverUrl,
+      connectionOptions,
+    );
 
-    // 7. イベントリスナーを設定
+    // 8. イベントリスナーを設定
     setupEventListeners(sseConnection);
   }
 
@@ -369,7 +534,8 @@ export function connectToEvents(handlers: EventHandlers): {
    * SSE接続を閉じる関数
    */
   function closeConnection() {
-    // 1. 再接続タイマーがあればクリア
+    // 1. 以降の接続を作成しないように記録し、再接続タイマーがあればクリア
+    closed = true;
     if (reconnectTimer) {
       clearTimeout(reconnectTimer);
       reconnectTimer = null;
@@ -388,7 +554,7 @@ export function connectToEvents(handlers: EventHandlers): {
   // ===== ステップ8: 初期接続を開始 =====
 
   // 接続を開始
-  startConnection();
+  void startConnection();
 
   // ===== ステップ9: 接続制御オブジェクトを返す =====
 
@@ -401,47 +567,59 @@ export function connectToEvents(handlers: EventHandlers): {
 
 /**
  * 認証ヘッダーを取得する関数
- * APIリクエスト用の認証ヘッダーを生成します
+ * APIリクエスト用のヘッダーを生成します
  *
- * SSEアプリケーションでは、メッセージ送信時などのAPIリクエストに認証情報を
- * 含める必要があります。この関数は、クッキーから認証トークンを取得し、
- * 適切な形式のヘッダーオブジェクトを生成します。
+ * 認証トークンはHttpOnlyのクッキーに保存されており、credentials: "include"を指定すると
+ * ブラウザが自動的に送信するため、Authorizationヘッダーは不要です。
+ * ただし、クッキーは他のサイトからのリクエストにも送信されるため、
+ * CSRF対策としてX-CSRF-Tokenヘッダーを含めます。
  *
- * @returns 認証ヘッダーオブジェクト - Content-Typeと必要に応じてAuthorizationヘッダーを含む
+ * @returns ヘッダーオブジェクト - Content-Typeと、ログイン中の場合はX-CSRF-Tokenヘッダーを含む
  */
 function getAuthHeaders(): HeadersInit {
-  // クッキーからトークンを取得
-  // document.cookieは「name=value; name2=value2;...」形式の文字列を返すため、
-  // セミコロンで分割して配列に変換します
-  const cookies = document.cookie.split(";");
-
-  // auth_tokenで始まるクッキーを検索
-  // find()メソッドは条件に一致する最初の要素を返します
-  const authCookie = cookies.find((cookie) =>
-    cookie.trim().startsWith("auth_token="),
-  );
-
-  // クッキーが見つかった場合、その値（トークン）を取得
-  // 「auth_token=xxxxx」形式から「xxxxx」部分を抽出します
-  const token = authCookie ? authCookie.split("=")[1] : null;
-
-  // トークンが存在しない場合（未認証の場合）
-  if (!token) {
-    // Content-Typeヘッダーのみを返す
-    return {
-      "Content-Type": "application/json",
-    };
-  }
-
-  // トークンが存在する場合（認証済みの場合）
-  // Content-TypeとAuthorizationヘッダーを返す
-  // Authorization: Bearer {token}形式は、JWT認証の標準的な方法です
   return {
     "Content-Type": "application/json",
-    Authorization: `Bearer ${token}`,
+    ...getCsrfHeaders(),
   };
 }
 
+/**
+ * SSE接続チケットを取得する関数
+ * 認証付きSSEエンドポイント（/secure-events）への接続に使用するチケットを発行します
+ *
+ * 認証クッキーで認証されたリクエストと引き換えに、使い捨てで数秒しか有効でないチケットを取得します。
+ * チケットは接続のたびに取得するため、SSE接続はその時点の認証状態で確立されます。
+ *
+ * @returns チケット文字列（取得に失敗した場合はnull）
+ */
+async function fetchSseTicket(): Promise<string | null> {
+  try {
+    // 認証クッキー付きでチケット発行エンドポイントにPOSTリクエストを送信
+    const response = await fetch(
+      `${process.env.NEXT_PUBLIC_API_URL}/api/sse-ticket`,
+      {
+        method: "POST",
+        credentials: "include", // 認証クッキーを送信するために必要
+        headers: getAuthHeaders(),
+      },
+    );
+
+    // レスポンスが成功でない場合はnullを返す
+    if (!response.ok) {
+      console.error("SSE接続チケットの取得に失敗しました:", response.status);
+      return null;
+    }
+
+    // レスポンスからチケットを取り出す
+    const data = await response.json();
+    return typeof data.ticket === "string" ? data.ticket : null;
+  } catch (error) {
+    // ネットワークエラーなどの場合
+    console.error("SSE接続チケットの取得中にエラーが発生しました:", error);
+    return null;
+  }
+}
+
 /**
  * メッセージを送信する関数
  * 通常の一括送信方式でメッセージをサーバーに送信します
@@ -454,37 +632,41 @@ function getAuthHeaders(): HeadersInit {
  * 1. 認証ヘッダーを取得
  * 2. メッセージをJSON形式に変換
  * 3. POSTリクエストを送信
- * 4. レスポンスのステータスコードに基づいて成功/失敗を判定
+ * 4. 失敗した場合は、サーバーが返したエラーを読み取る
  *
  * @param message - 送信するメッセージ（テキスト形式）
- * @returns 送信が成功したかどうか（成功: true、失敗: false）
+ * @returns 成功時はnull、失敗時はAPIエラー（画面に表示できるメッセージを含みます）
  */
-export async function sendMessage(message: string): Promise<boolean> {
+export async function sendMessage(
+  message: string,
+): Promise<ApiError | null> {
   try {
     // サーバーのメッセージ送信エンドポイントにPOSTリクエストを送信
     const response = await fetch(
       `${process.env.NEXT_PUBLIC_API_URL}/send-message`,
       {
         method: "POST", // HTTPメソッド: POST
+        credentials: "include", // 認証クッキーを送信するために必要
         headers: getAuthHeaders(), // 認証ヘッダーを取得して設定
         body: JSON.stringify({ message }), // メッセージをJSON形式に変換
       },
     );
 
-    // レスポンスが成功（200-299）でない場合はエラーをログに出力
+    // レスポンスが成功（200-299）でない場合は、サーバーが返したエラーを読み取る
+    // エラーレスポンスは { success: false, code, message, details? } の形式です
     if (!response.ok) {
+      const apiError = await readApiError(response);
       console.error(
-        `メッセージ送信エラー: ${response.status} ${response.statusText}`,
+        `メッセージ送信エラー: ${response.status} ${apiError.code} ${apiError.message}`,
       );
+      return apiError;
     }
 
-    // レスポンスのステータスコードに基づいて成功/失敗を返す
-    // response.ok は、ステータスコードが200-299の範囲内の場合にtrueを返します
-    return response.ok;
+    return null;
   } catch (error) {
     // ネットワークエラーなどの例外が発生した場合
     console.error("メッセージ送信エラー:", error);
-    return false;
+    return networkError();
   }
 }
 
@@ -504,34 +686,38 @@ export async function sendMessage(message: string): Promise<boolean> {
  * 5. クライアント: 受信したメッセージを画面に表示（タイピング中のような効果）
  *
  * @param message - 送信するメッセージ（テキスト形式）
- * @returns 送信リクエストが成功したかどうか（成功: true、失敗: false）
+ * @returns 送信リクエストの成功時はnull、失敗時はAPIエラー（画面に表示できるメッセージを含みます）
  */
-export async function streamMessage(message: string): Promise<boolean> {
+export async function streamMessage(
+  message: string,
+): Promise<ApiError | null> {
   try {
     // サーバーのストリーミングメッセージ送信エンドポイントにPOSTリクエストを送信
     const response = await fetch(
       `${process.env.NEXT_PUBLIC_API_URL}/stream-message`,
       {
         method: "POST", // HTTPメソッド: POST
+        credentials: "include", // 認証クッキーを送信するために必要
         headers: getAuthHeaders(), // 認証ヘッダーを取得して設定
         body: JSON.stringify({ message }), // メッセージをJSON形式に変換
       },
     );
 
-    // レスポンスが成功（200-299）でない場合はエラーをログに出力
+    // レスポンスが成功（200-299）でない場合は、サーバーが返したエラーを読み取る
     if (!response.ok) {
+      const apiError = await readApiError(response);
       console.error(
-        `ストリーミングメッセージ送信エラー: ${response.status} ${response.statusText}`,
+        `ストリーミングメッセージ送信エラー: ${response.status} ${apiError.code} ${apiError.message}`,
       );
+      return apiError;
     }
 
-    // レスポンスのステータスコードに基づいて成功/失敗を返す
     // 注意: これはリクエストの成功/失敗を示すもので、
     // 実際のメッセージ送信はSSE接続を通じて段階的に行われます
-    return response.ok;
+    return null;
   } catch (error) {
     // ネットワークエラーなどの例外が発生した場合
     console.error("ストリーミングメッセージ送信エラー:", error);
-    return false;
+    return networkError();
   }
 }
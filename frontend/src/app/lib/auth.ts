@@ -6,18 +6,28 @@
  * 認証の仕組みが重要です。このモジュールは、ユーザーの認証状態を管理し、
  * 認証トークンの保存・取得・削除などの機能を提供します。
  *
+ * トークン（JWT）とリフレッシュトークンは、サーバーがHttpOnlyのクッキーに設定するため、
+ * このモジュールを含むJavaScriptからは読み取れません。ログイン状態はサーバーの
+ * /api/meエンドポイントに問い合わせて確認します。
+ *
  * SSEにおける認証の重要性:
  * 1. セキュリティ - 認証されたユーザーのみが特定のイベントストリームにアクセスできるようにする
  * 2. パーソナライゼーション - ユーザーごとに異なるイベントを送信できるようにする
  * 3. リソース管理 - 認証されたユーザーのみにリソースを提供し、サーバーの負荷を軽減する
  */
 
+// APIエラー関連の関数をインポート
+// ApiError: サーバーが返したエラーの型
+// readApiError: エラーレスポンスからAPIエラーを作成する関数
+// networkError: サーバーに接続できなかった場合のAPIエラーを作成する関数
+import { ApiError, readApiError, networkError } from "./errors";
+
 /**
  * 認証済みユーザーの型定義
  *
  * @property id - ユーザーの一意識別子
  * @property username - ユーザー名
- * @property role - ユーザーの役割（権限レベル）
+ * @property role - ユーザーの役割（権限レベル）: viewer / publisher / admin
  */
 export interface AuthUser {
   id: number;
@@ -25,48 +35,256 @@ export interface AuthUser {
   role: string;
 }
 
-// クッキーの有効期限（1時間 = 60秒 × 60分）
-// この期間が過ぎると、クッキーは自動的に削除され、ユーザーは再認証が必要になります
-const COOKIE_MAX_AGE = 60 * 60;
+// メッセージを送信できる役割
+// サーバーのメッセージ送信エンドポイントはpublisher以上の役割を必要とします
+// viewerのユーザーはイベントの受信のみができます
+const PUBLISHER_ROLES = ["publisher", "admin"];
 
 /**
- * クッキーに認証トークンを保存する関数
+ * ユーザーがメッセージを送信できるかどうかを判定する関数
  *
- * JWTトークンをブラウザのクッキーに保存します。
- * このトークンは、SSE接続時にサーバーに送信され、認証に使用されます。
+ * 最終的な権限の確認はサーバーが行います。この関数は、送信できないユーザーに
+ * 送信フォームを使えないことを事前に示すために使用します。
  *
- * @param token - 保存するJWTトークン
+ * @param user - ユーザー情報（未認証の場合はnull）
+ * @returns publisher以上の役割を持つ場合はtrue
  */
-function setAuthCookie(token: string): void {
-  // サーバーサイドでの実行時は何もしない（documentオブジェクトがない）
-  if (typeof document === "undefined") return;
+export function canPublish(user: AuthUser | null): boolean {
+  return user !== null && PUBLISHER_ROLES.includes(user.role);
+}
 
-  // クッキーにトークンを保存
-  // path=/: すべてのパスでクッキーを利用可能にする
-  // max-age: クッキーの有効期限（秒単位）
-  // SameSite=Lax: クロスサイトリクエストの制限（セキュリティ対策）
-  document.cookie = `auth_token=${token}; path=/; max-age=${COOKIE_MAX_AGE}; SameSite=Lax`;
+/**
+ * ログイン・トークン更新APIのレスポンスの型定義
+ * トークンはサーバーがHttpOnlyのクッキーに設定するため、レスポンスからは使用しません
+ *
+ * @property expiresIn - アクセストークンの有効期間（秒）
+ * @property user - ログインしたユーザーの情報
+ */
+interface SessionResponse {
+  expiresIn: number;
+  user: AuthUser;
 }
 
+// アクセストークンの有効期限の何秒前に更新するか
+// 期限ぎりぎりに更新すると、通信の遅延などで期限切れになる可能性があるため余裕を持たせます
+const RENEWAL_MARGIN_SECONDS = 60;
+
+// トークンを更新する時刻のばらつき（ミリ秒）
+// 複数のタブが同時に同じリフレッシュトークンを使うと、再利用とみなされてログアウトされるため、
+// タブごとに更新する時刻をずらします
+const RENEWAL_JITTER_MS = 20 * 1000;
+
+// ネットワークエラーなどでトークンの更新に失敗した場合に再試行するまでの時間（ミリ秒）
+const RENEWAL_RETRY_MS = 10 * 1000;
+
+// トークン更新用のタイマーID
+let renewalTimer: ReturnType<typeof setTimeout> | null = null;
+
+// アクセストークンの有効期限（UNIXタイムスタンプ、ミリ秒）
+// トークンはJavaScriptから読み取れないため、サーバーのレスポンスに含まれる有効期間から計算します
+let accessTokenExpiresAt: number | null = null;
+
+// ログイン中のユーザー情報
+// /api/meへの問い合わせ結果（問い合わせ中の場合はそのPromise）を保持し、何度も問い合わせないようにします
+let currentUserRequest: Promise<AuthUser | null> | null = null;
+
 /**
- * クッキーから認証トークンを削除する関数
+ * クッキーから値を取得する関数
+ *
+ * HttpOnlyでないクッキー（CSRFトークン）のみ取得できます。
  *
- * ログアウト時などに、保存されている認証トークンを削除します。
- * max-age=0を設定することで、クッキーを即時に無効化します。
+ * @param name - クッキーの名前
+ * @returns クッキーの値、または見つからない場合はnull
  */
-function removeAuthCookie(): void {
+function getCookie(name: string): string | null {
   // サーバーサイドでの実行時は何もしない（documentオブジェクトがない）
-  if (typeof document === "undefined") return;
+  if (typeof document === "undefined") return null;
+
+  // クッキー文字列をセミコロンで分割し、指定された名前で始まるクッキーを検索
+  const cookie = document.cookie
+    .split(";")
+    .find((c) => c.trim().startsWith(`${name}=`));
 
-  // クッキーを無効化（max-age=0を設定）
-  document.cookie = "auth_token=; path=/; max-age=0; SameSite=Lax";
+  // クッキーが見つかった場合、その値を返す
+  return cookie ? decodeURIComponent(cookie.split("=")[1]) : null;
+}
+
+/**
+ * CSRF対策用のリクエストヘッダーを取得する関数
+ *
+ * 認証クッキーは他のサイトからのリクエストにも自動的に送信されるため、
+ * サーバーは状態を変更するリクエスト（POSTなど）で、クッキーのCSRFトークンと
+ * 同じ値がX-CSRF-Tokenヘッダーに含まれていることを確認します。
+ * 他のサイトのJavaScriptはこのクッキーを読み取れないため、正しいヘッダーを送信できません。
+ *
+ * @returns CSRFトークンを含むヘッダー（ログインしていない場合は空のオブジェクト）
+ */
+export function getCsrfHeaders(): Record<string, string> {
+  const csrfToken = getCookie("csrf_token");
+  return csrfToken ? { "X-CSRF-Token": csrfToken } : {};
+}
+
+/**
+ * ログイン・トークン更新APIのレスポンスを保存する関数
+ *
+ * ユーザー情報とアクセストークンの有効期限を記録し、
+ * アクセストークンの期限切れ前に更新するようにスケジュールします。
+ *
+ * @param data - ログイン・トークン更新APIのレスポンス
+ */
+function saveSession(data: SessionResponse): void {
+  accessTokenExpiresAt = Date.now() + data.expiresIn * 1000;
+  currentUserRequest = Promise.resolve(data.user);
+  scheduleTokenRenewal();
+}
+
+/**
+ * トークン更新APIにリクエストを送信する関数
+ *
+ * リフレッシュトークンはHttpOnlyのクッキーに保存されているため、
+ * credentials: "include"でクッキーを送信します。
+ *
+ * @returns サーバーのレスポンス
+ */
+function requestRefresh(): Promise<Response> {
+  return fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/refresh`, {
+    method: "POST",
+    credentials: "include", // クッキーを送信・受信するために必要
+    headers: getCsrfHeaders(),
+  });
+}
+
+/**
+ * アクセストークンの更新をスケジュールする関数
+ *
+ * アクセストークンの有効期限のRENEWAL_MARGIN_SECONDS秒前（タブごとに少しずらします）に
+ * renewIfNeeded()が呼ばれるようにタイマーを設定します。
+ */
+function scheduleTokenRenewal(): void {
+  // サーバーサイドでの実行時は何もしない（windowオブジェクトがない）
+  if (typeof window === "undefined") return;
+
+  // 1. 既存のタイマーがあればクリア
+  if (renewalTimer) {
+    clearTimeout(renewalTimer);
+    renewalTimer = null;
+  }
+
+  // 2. ログインしていなければ更新できない
+  if (accessTokenExpiresAt === null) return;
+
+  // 3. 有効期限のRENEWAL_MARGIN_SECONDS秒前までの時間を計算
+  const waitTimeMs = Math.max(
+    accessTokenExpiresAt - RENEWAL_MARGIN_SECONDS * 1000 - Date.now(),
+    0,
+  );
+
+  // 4. 指定時間後に更新を実行
+  renewalTimer = setTimeout(
+    () => {
+      renewalTimer = null;
+      void renewIfNeeded();
+    },
+    waitTimeMs + Math.random() * RENEWAL_JITTER_MS,
+  );
+}
+
+/**
+ * 必要な場合にアクセストークンを更新する関数
+ *
+ * 認証クッキーはすべてのタブで共有されているため、別のタブがすでにトークンを更新している場合は、
+ * /api/meが新しいトークンの有効期限を返します。その場合は更新せず、新しい有効期限で待ち直し、
+ * 新しいトークンでSSE接続を再確立します（同じリフレッシュトークンを2回使うとログアウトされるため）。
+ */
+async function renewIfNeeded(): Promise<void> {
+  try {
+    // 1. 現在のクッキーのトークンの有効期限を問い合わせる
+    const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/me`, {
+      credentials: "include",
+    });
+
+    // 2. 別のタブによってすでに更新されている場合
+    if (response.ok) {
+      const data: SessionResponse = await response.json();
+      if (data.expiresIn > RENEWAL_MARGIN_SECONDS) {
+        saveSession(data);
+        window.dispatchEvent(new Event("auth-state-changed"));
+        return;
+      }
+    }
+  } catch (error) {
+    // 問い合わせに失敗した場合は、そのまま更新を試みる
+    console.error("ログイン状態の確認エラー:", error);
+  }
+
+  // 3. トークンを更新
+  await refreshAccessToken();
+}
+
+/**
+ * アクセストークンを更新する関数
+ *
+ * リフレッシュトークンのクッキーをサーバーに送信し、新しいトークンをクッキーに設定してもらいます。
+ * リフレッシュトークンは一度しか使えず、サーバーが新しいリフレッシュトークンを設定します。
+ *
+ * 更新に成功すると認証状態変更イベントを発行し、SSE接続が新しい認証情報で再確立されます。
+ * リフレッシュトークンが無効な場合（期限切れ、再利用の検知など）はログアウト状態になります。
+ *
+ * @returns 更新に成功した場合はtrue、失敗した場合はfalse
+ */
+export async function refreshAccessToken(): Promise<boolean> {
+  try {
+    // 1. サーバーのトークン更新APIにリクエストを送信
+    const response = await requestRefresh();
+
+    // 2. リフレッシュトークンが無効な場合はログアウト状態にする
+    if (!response.ok) {
+      clearSession();
+      return false;
+    }
+
+    // 3. ユーザー情報と有効期限を保存し、次の更新をスケジュール
+    saveSession(await response.json());
+
+    // 4. 認証状態変更イベントを発行
+    // このイベントにより、SSE接続が新しい認証情報で再確立されます
+    window.dispatchEvent(new Event("auth-state-changed"));
+    return true;
+  } catch (error) {
+    // ネットワークエラーなどの場合は、しばらくしてから再試行する
+    console.error("トークン更新エラー:", error);
+    renewalTimer = setTimeout(() => {
+      renewalTimer = null;
+      void refreshAccessToken();
+    }, RENEWAL_RETRY_MS);
+    return false;
+  }
+}
+
+/**
+ * トークンの自動更新を開始する関数
+ *
+ * アプリケーションの起動時（ナビゲーションバーのマウント時）に呼び出され、
+ * ページを再読み込みした後もアクセストークンが期限切れ前に更新されるようにします。
+ * ログイン状態の確認（/api/me）が完了すると、更新がスケジュールされます。
+ *
+ * @returns 自動更新を停止する関数
+ */
+export function startTokenRenewal(): () => void {
+  void getCurrentUser();
+  return () => {
+    if (renewalTimer) {
+      clearTimeout(renewalTimer);
+      renewalTimer = null;
+    }
+  };
 }
 
 /**
  * ログイン関数
  *
- * ユーザー名とパスワードを使用してサーバーに認証リクエストを送信し、
- * 認証に成功した場合はJWTトークンを取得してクッキーに保存します。
+ * ユーザー名とパスワードを使用してサーバーに認証リクエストを送信します。
+ * 認証に成功すると、サーバーがトークンをHttpOnlyのクッキーに設定します。
  * また、認証状態の変更を通知するイベントを発行します。
  *
  * SSEアプリケーションでは、認証状態が変わると、新しい認証状態に基づいて
@@ -74,18 +292,20 @@ function removeAuthCookie(): void {
  *
  * @param username - ユーザー名
  * @param password - パスワード
- * @returns 認証成功時はtrue、失敗時はfalse
+ * @returns 認証成功時はnull、失敗時はAPIエラー（画面に表示できるメッセージを含みます）
  */
 export async function login(
   username: string,
   password: string,
-): Promise<boolean> {
+): Promise<ApiError | null> {
   try {
     // サーバーのログインAPIにリクエストを送信
+    // credentials: "include"により、サーバーが設定するクッキーを受け取ります
     const response = await fetch(
       `${process.env.NEXT_PUBLIC_API_URL}/api/login`,
       {
         method: "POST",
+        credentials: "include",
         headers: {
           "Content-Type": "application/json",
         },
@@ -94,15 +314,13 @@ export async function login(
     );
 
     // レスポンスが成功（200-299）でない場合は認証失敗
+    // 認証情報の誤り（INVALID_CREDENTIALS）、ロックアウト（ACCOUNT_LOCKED）などのエラーを返します
     if (!response.ok) {
-      return false;
+      return readApiError(response);
     }
 
-    // レスポンスからJWTトークンを取得
-    const data = await response.json();
-
-    // トークンをクッキーに保存
-    setAuthCookie(data.token);
+    // ユーザー情報とアクセストークンの有効期限を保存し、アクセストークンの更新をスケジュール
+    saveSession(await response.json());
 
     // 認証状態変更イベントを発行
     // このイベントにより、SSE接続を再確立するなどの処理がトリガーされます
@@ -110,131 +328,140 @@ export async function login(
       window.dispatchEvent(new Event("auth-state-changed"));
     }
 
-    return true;
+    return null;
   } catch (error) {
     // エラーハンドリング
     console.error("ログインエラー:", error);
-    return false;
+    return networkError();
   }
 }
 
 /**
  * ログアウト関数
  *
- * サーバーにログアウトリクエストを送信し、
- * クッキーから認証トークンを削除します。
+ * サーバーにログアウトリクエストを送信します。
+ * サーバーはこのログインのトークンを失効させ、認証クッキーを削除し、
+ * 接続中のSSEストリームを閉じます。
+ * allDevicesがtrueの場合は、他の端末を含むすべてのログインが失効します。
  * また、認証状態の変更を通知するイベントを発行します。
  *
  * SSEアプリケーションでは、ログアウト時にSSE接続を再確立し、
  * 認証が必要なイベントストリームから一般公開イベントストリームに
  * 切り替える必要があります。
+ *
+ * @param allDevices - すべての端末からログアウトするかどうか
  */
-export async function logout(): Promise<void> {
+export async function logout(allDevices = false): Promise<void> {
   try {
     // サーバーのログアウトAPIにリクエストを送信
-    await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/logout`, {
+    // 認証クッキーとCSRFトークンを送信し、どのログインを失効させるかをサーバーが判断します
+    const endpoint = allDevices ? "/api/logout-all" : "/api/logout";
+    await fetch(`${process.env.NEXT_PUBLIC_API_URL}${endpoint}`, {
       method: "POST",
+      credentials: "include",
+      headers: getCsrfHeaders(),
     });
   } catch (error) {
     // エラーハンドリング
     console.error("ログアウトエラー:", error);
   } finally {
-    // エラーが発生しても、クライアント側では必ずトークンを削除
-    removeAuthCookie();
-
-    // 認証状態変更イベントを発行
-    // このイベントにより、SSE接続を再確立するなどの処理がトリガーされます
-    if (typeof window !== "undefined") {
-      window.dispatchEvent(new Event("auth-state-changed"));
-    }
+    // エラーが発生しても、クライアント側では必ずログイン状態を破棄
+    clearSession();
   }
 }
 
 /**
- * 現在のユーザー情報を取得する関数
+ * クライアント側のログイン状態を破棄する関数
  *
- * JWTトークンからユーザー情報を抽出します。
- * JWTトークンは、ヘッダー、ペイロード、署名の3つの部分からなり、
- * ペイロード部分にユーザー情報が含まれています。
- *
- * @returns 認証済みの場合はユーザー情報、未認証の場合はnull
+ * トークンの自動更新を停止し、保持しているユーザー情報を削除して、
+ * 認証状態の変更を通知するイベントを発行します。
+ * ログアウト時のほか、サーバーからセッションの終了（session-endedイベント）を
+ * 通知された場合にも呼び出されます。
  */
-export function getCurrentUser(): AuthUser | null {
-  // サーバーサイドでの実行時は何もしない（windowオブジェクトがない）
-  if (typeof window === "undefined") {
-    return null; // サーバーサイドでの実行時
+export function clearSession(): void {
+  // トークンの自動更新を停止
+  if (renewalTimer) {
+    clearTimeout(renewalTimer);
+    renewalTimer = null;
   }
+  accessTokenExpiresAt = null;
+  currentUserRequest = Promise.resolve(null);
 
-  // 認証トークンを取得
-  const token = getAuthToken();
-  if (!token) return null;
+  // 認証状態変更イベントを発行
+  // このイベントにより、SSE接続を再確立するなどの処理がトリガーされます
+  if (typeof window !== "undefined") {
+    window.dispatchEvent(new Event("auth-state-changed"));
+  }
+}
 
+/**
+ * サーバーにログイン中のユーザー情報を問い合わせる関数
+ *
+ * アクセストークンの期限が切れている場合は、リフレッシュトークンでの更新を試みます。
+ *
+ * @returns ログイン中の場合はユーザー情報、未ログインの場合はnull
+ */
+async function fetchCurrentUser(): Promise<AuthUser | null> {
   try {
-    // JWTのペイロード部分をデコード
-    // JWTは「ヘッダー.ペイロード.署名」の形式になっているため、
-    // split(".")で分割し、[1]でペイロード部分を取得
-    const base64Url = token.split(".")[1];
-
-    // Base64Url形式からBase64形式に変換
-    const base64 = base64Url.replace(/-/g, "+").replace(/_/g, "/");
-
-    // Base64デコードしてJSONをパース
-    const payload = JSON.parse(window.atob(base64));
-
-    // ユーザー情報を返す
-    return {
-      id: payload.id,
-      username: payload.username,
-      role: payload.role,
-    };
+    // 1. 認証クッキーを送信してユーザー情報を問い合わせる
+    const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/me`, {
+      credentials: "include",
+    });
+
+    // 2. ログイン中の場合は、有効期限を記録して更新をスケジュール
+    if (response.ok) {
+      const data: SessionResponse = await response.json();
+      accessTokenExpiresAt = Date.now() + data.expiresIn * 1000;
+      scheduleTokenRenewal();
+      return data.user;
+    }
+
+    // 3. アクセストークンの期限が切れている場合は、リフレッシュトークンで更新する
+    // （ページを閉じている間に期限が切れた場合など）
+    const refreshed = await requestRefresh();
+    if (!refreshed.ok) {
+      return null;
+    }
+    const data: SessionResponse = await refreshed.json();
+    saveSession(data);
+    return data.user;
   } catch (error) {
-    // トークン解析エラーのハンドリング
-    console.error("トークン解析エラー:", error);
+    // ネットワークエラーなどの場合
+    console.error("ログイン状態の確認エラー:", error);
     return null;
   }
 }
 
 /**
- * 認証トークンを取得する関数
+ * 現在のユーザー情報を取得する関数
  *
- * クッキーから認証トークンを取得します。
- * このトークンは、SSE接続時にサーバーに送信され、認証に使用されます。
+ * サーバーの/api/meエンドポイントに問い合わせてユーザー情報を取得します。
+ * トークンはHttpOnlyのクッキーに保存されているため、JavaScriptでデコードすることはできません。
+ * 結果は保持され、ログイン・ログアウト・トークン更新まで再度問い合わせることはありません。
  *
- * @returns 認証トークン、または未認証の場合はnull
+ * @returns 認証済みの場合はユーザー情報、未認証の場合はnull
  */
-export function getAuthToken(): string | null {
+export function getCurrentUser(): Promise<AuthUser | null> {
   // サーバーサイドでの実行時は何もしない（windowオブジェクトがない）
   if (typeof window === "undefined") {
-    return null; // サーバーサイドでの実行時
+    return Promise.resolve(null); // サーバーサイドでの実行時
   }
 
-  // クッキー文字列をセミコロンで分割して配列に変換
-  const cookies = document.cookie.split(";");
-
-  // auth_tokenで始まるクッキーを検索
-  const authCookie = cookies.find((cookie) =>
-    cookie.trim().startsWith("auth_token="),
-  );
-
-  // 認証クッキーが見つかった場合、その値（トークン）を返す
-  if (authCookie) {
-    return authCookie.split("=")[1];
+  if (!currentUserRequest) {
+    currentUserRequest = fetchCurrentUser();
   }
-
-  // 認証クッキーが見つからない場合はnullを返す
-  return null;
+  return currentUserRequest;
 }
 
 /**
  * ユーザーが認証済みかチェックする関数
  *
- * 認証トークンの有無を確認し、ユーザーが認証済みかどうかを判定します。
+ * ログイン中のユーザー情報を取得できるかどうかで、ユーザーが認証済みかどうかを判定します。
  * SSEアプリケーションでは、この関数を使用して、認証が必要なイベントストリームに
  * アクセスできるかどうかを判断します。
  *
  * @returns 認証済みならtrue、未認証ならfalse
  */
-export function isAuthenticated(): boolean {
-  // getAuthToken()がnullでなければtrue、nullならfalseを返す
-  return !!getAuthToken();
+export async function isAuthenticated(): Promise<boolean> {
+  return (await getCurrentUser()) !== null;
 }
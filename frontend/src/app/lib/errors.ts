@@ -0,0 +1,102 @@
+/**
+ * APIエラーモジュール
+ *
+ * このファイルは、サーバーが返すエラーレスポンスを読み取り、
+ * 画面に表示できる形式に変換する機能を提供します。
+ *
+ * サーバーのエラーレスポンスは、すべてのエンドポイントで次の形式のJSONです:
+ * { "success": false, "code": "VALIDATION_ERROR", "message": "...", "details": [...] }
+ *
+ * - code: エラーの種類を表す機械可読なコード（処理の分岐に使用）
+ * - message: 利用者に表示できるエラーメッセージ
+ * - details: 入力値の検証エラーの場合のみ、項目ごとのエラー
+ */
+
+/**
+ * 項目ごとの検証エラーの型定義
+ * - field: 項目の位置（"body.message"など）
+ * - message: エラーメッセージ
+ */
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+/**
+ * APIエラーの型定義
+ * - code: サーバーが返したエラーコード。サーバーに接続できなかった場合は"NETWORK_ERROR"
+ * - message: 画面に表示するエラーメッセージ
+ * - details: 入力値の検証エラーの場合のみ、項目ごとのエラー
+ * - retryAfter: 再試行できるまでの秒数（Retry-Afterヘッダーがある場合のみ）
+ */
+export interface ApiError {
+  code: string;
+  message: string;
+  details?: FieldError[];
+  retryAfter?: number;
+}
+
+/**
+ * エラーレスポンスからAPIエラーを作成する関数
+ *
+ * レスポンスが共通の形式でない場合（プロキシが返したHTMLなど）は、
+ * ステータスコードをもとにしたメッセージを返します。
+ *
+ * @param response - 失敗したレスポンス（response.okがfalse）
+ * @returns APIエラー
+ */
+export async function readApiError(response: Response): Promise<ApiError> {
+  // 再試行できるまでの秒数（レート制限、ロックアウト、接続数の上限など）
+  const retryAfterHeader = Number(response.headers.get("Retry-After"));
+  const retryAfter =
+    Number.isFinite(retryAfterHeader) && retryAfterHeader > 0
+      ? retryAfterHeader
+      : undefined;
+
+  try {
+    const body = await response.json();
+    if (typeof body?.code === "string" && typeof body?.message === "string") {
+      return {
+        code: body.code,
+        message: body.message,
+        details: Array.isArray(body.details) ? body.details : undefined,
+        retryAfter,
+      };
+    }
+  } catch {
+    // JSONでないレスポンスは、ステータスコードをもとにしたメッセージにします
+  }
+
+  return {
+    code: `HTTP_${response.status}`,
+    message: `リクエストに失敗しました（ステータス: ${response.status}）`,
+    retryAfter,
+  };
+}
+
+/**
+ * サーバーに接続できなかった場合のAPIエラーを作成する関数
+ *
+ * @returns APIエラー（codeは"NETWORK_ERROR"）
+ */
+export function networkError(): ApiError {
+  return {
+    code: "NETWORK_ERROR",
+    message:
+      "サーバーに接続できませんでした。ネットワークを確認してください。",
+  };
+}
+
+/**
+ * APIエラーを画面に表示する文字列に変換する関数
+ *
+ * 再試行できるまでの秒数がわかる場合は、メッセージに追加します。
+ *
+ * @param error - APIエラー
+ * @returns 表示用のエラーメッセージ
+ */
+export function formatApiError(error: ApiError): string {
+  return error.retryAfter !== undefined
+    ? `${error.message}（${error.retryAfter}秒後に再試行できます）`
+    : error.message;
+}
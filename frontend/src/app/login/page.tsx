@@ -28,6 +28,9 @@ import { login } from "../lib/auth";
 // 認証関連の関数をインポート
 // login: ユーザー名とパスワードを使用して認証を行う関数
 
+import { formatApiError } from "../lib/errors";
+// APIエラーを画面に表示する文字列に変換する関数をインポート
+
 /**
  * ログインページコンポーネント
  *
@@ -72,15 +75,16 @@ export default function LoginPage() {
     try {
       // ログイン処理を実行
       // auth.tsのlogin関数を呼び出し、ユーザー名とパスワードを渡す
-      const success = await login(username, password);
+      const apiError = await login(username, password);
 
       // ログイン成功時の処理
-      if (success) {
+      if (!apiError) {
         // ホームページにリダイレクト
         router.push("/");
       } else {
-        // ログイン失敗時のエラーメッセージを設定
-        setError("ユーザー名またはパスワードが正しくありません");
+        // ログイン失敗時は、サーバーが返したエラーメッセージを設定
+        // 認証情報の誤りのほか、ロックアウトやレート制限の場合は再試行できるまでの時間も表示します
+        setError(formatApiError(apiError));
       }
     } catch (err) {
       // 例外発生時のエラーハンドリング
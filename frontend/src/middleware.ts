@@ -56,8 +56,13 @@ export function middleware(request: NextRequest) {
 
   // 認証トークンの確認
   // クッキーから認証トークンを取得し、ユーザーが認証済みかどうかを判断
+  // アクセストークンの期限が切れていても、リフレッシュトークンがあればページの表示後に
+  // 自動で更新されるため、認証済みとして扱います
+  // これらのクッキーはサーバーが設定するHttpOnlyのクッキーで、JavaScriptからは読み取れませんが、
+  // リクエストには含まれるため、ここ（Next.jsのサーバー側）では確認できます
   const authToken = request.cookies.get("auth_token")?.value;
-  const isAuthenticated = !!authToken; // トークンが存在すれば認証済みと判断
+  const refreshToken = request.cookies.get("refresh_token")?.value;
+  const isAuthenticated = !!authToken || !!refreshToken; // どちらかのトークンが存在すれば認証済みと判断
 
   // 認証が不要なパス（パブリックルート）かどうかをチェック
   // publicPathsリストに含まれるパス、またはそのサブパスかどうかを確認